@@ -18,6 +18,9 @@ class AnimState {
 
     target: Vec3 = new Vec3();
 
+    // null unless the track animates fov
+    fov: number | null = null;
+
     constructor(spline: CubicSpline, duration: number, loopMode: 'none' | 'repeat' | 'pingpong', frameRate: number) {
         this.spline = spline;
         this.cursor.reset(duration, loopMode);
@@ -37,20 +40,28 @@ class AnimState {
         if (result.every(isFinite)) {
             position.set(result[0], result[1], result[2]);
             target.set(result[3], result[4], result[5]);
+            if (result.length > 6) {
+                this.fov = result[6];
+            }
         }
     }
 
     // construct an animation from a settings track
     static fromTrack(track: AnimTrack) {
-        const { keyframes, duration, frameRate, loopMode, smoothness } = track;
+        const { keyframes, duration, frameRate, loopMode, smoothness, animateFov } = track;
         const { times, values } = keyframes;
-        const { position, target } = values;
+        const { position, target, fov } = values;
+        const hasFov = !!animateFov && fov?.length === times.length;
 
-        // construct the points array containing position and target
+        // construct the points array containing position, target and, for tracks that animate it,
+        // fov
         const points = [];
         for (let i = 0; i < times.length; i++) {
             points.push(position[i * 3], position[i * 3 + 1], position[i * 3 + 2]);
             points.push(target[i * 3], target[i * 3 + 1], target[i * 3 + 2]);
+            if (hasFov) {
+                points.push(fov[i]);
+            }
         }
 
         const extra = (duration === times[times.length - 1] / frameRate) ? 1 : 0;
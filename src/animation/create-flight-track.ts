@@ -0,0 +1,182 @@
+import { Vec3 } from 'playcanvas';
+
+import { AnimTrack } from '../settings';
+
+// a camera pose along the capture flight
+type FlightSample = {
+    position: Vec3;
+    forward: Vec3;
+    fov: number;
+};
+
+// radius in samples of the binomial smoothing kernel
+const smoothingRadius = 2;
+
+// a turn of this many degrees counts as far as moving one frame spacing, for timing and decimation
+const turnAngle = 30;
+
+// keep a keyframe when the interpolated path deviates by more than this many frame spacings
+const tolerance = 0.25;
+
+// playback speed in seconds per frame spacing and the duration limits
+const secondsPerSpacing = 0.4;
+const minDuration = 10;
+const maxDuration = 300;
+
+// the crossing from one flight to the next counts as this many frame spacings
+const flightGap = 10;
+
+// time spent flying from the last keyframe back to the first before repeating
+const returnFraction = 0.1;
+const minReturnDuration = 2;
+
+const tmpVec = new Vec3();
+
+const angleBetween = (a: Vec3, b: Vec3) => {
+    return Math.acos(Math.max(-1, Math.min(1, a.dot(b)))) * 180 / Math.PI;
+};
+
+// smooth positions, directions and fov with a binomial kernel, renormalized at the ends
+const smoothSamples = (samples: FlightSample[]) => {
+    const weights = [1, 4, 6, 4, 1];
+    return samples.map((_, i) => {
+        const position = new Vec3();
+        const forward = new Vec3();
+        let fov = 0;
+        let total = 0;
+        for (let k = -smoothingRadius; k <= smoothingRadius; k++) {
+            const sample = samples[i + k];
+            if (sample) {
+                const w = weights[k + smoothingRadius];
+                position.add(tmpVec.copy(sample.position).mulScalar(w));
+                forward.add(tmpVec.copy(sample.forward).mulScalar(w));
+                fov += sample.fov * w;
+                total += w;
+            }
+        }
+        return {
+            position: position.mulScalar(1 / total),
+            forward: forward.length() > 0 ? forward.normalize() : samples[i].forward.clone(),
+            fov: fov / total
+        };
+    });
+};
+
+// Ramer-Douglas-Peucker over the samples, interpolating between kept keys by path progress
+const decimate = (samples: FlightSample[], progress: number[], spacing: number) => {
+    const keep = new Array(samples.length).fill(false);
+    keep[0] = true;
+    keep[samples.length - 1] = true;
+
+    const interpolated = new Vec3();
+    const stack: [number, number][] = [[0, samples.length - 1]];
+    while (stack.length > 0) {
+        const [a, b] = stack.pop();
+        const range = progress[b] - progress[a];
+
+        let worst = -1;
+        let worstDeviation = tolerance;
+        for (let k = a + 1; k < b; k++) {
+            const t = range > 0 ? (progress[k] - progress[a]) / range : (k - a) / (b - a);
+            const positionDeviation = interpolated.lerp(samples[a].position, samples[b].position, t).distance(samples[k].position) / spacing;
+            interpolated.lerp(samples[a].forward, samples[b].forward, t).normalize();
+            const angleDeviation = angleBetween(interpolated, samples[k].forward) / turnAngle;
+            const deviation = Math.max(positionDeviation, angleDeviation);
+            if (deviation > worstDeviation) {
+                worstDeviation = deviation;
+                worst = k;
+            }
+        }
+
+        if (worst >= 0) {
+            keep[worst] = true;
+            stack.push([a, worst], [worst, b]);
+        }
+    }
+
+    return keep.map((kept, i) => (kept ? i : -1)).filter(i => i >= 0);
+};
+
+/**
+ * Creates an animation track replaying the capture flights one after another. The camera poses of
+ * each flight are smoothed, reduced to the keyframes needed to follow the path within a fraction
+ * of the frame spacing, and timed so the camera moves and turns at a steady pace. Flights are
+ * smoothed separately, so the end of one mission doesn't blend into the start of the next, and
+ * the camera crosses between them in a fixed time. Each keyframe looks along the camera's forward
+ * vector and carries its field of view.
+ *
+ * @param flights - Camera poses of each flight in capture order.
+ * @param targetDistance - Distance in front of each camera to place its look target.
+ * @returns - The animation track, or null with fewer than two poses.
+ */
+const createFlightTrack = (flights: FlightSample[][], targetDistance: number): AnimTrack | null => {
+    const segments = flights.filter(samples => samples.length > 0).map(smoothSamples);
+    if (segments.reduce((count, samples) => count + samples.length, 0) < 2) {
+        return null;
+    }
+
+    // median distance between consecutive poses of a flight
+    const distances = segments.map(samples => samples.slice(1).map((sample, i) => sample.position.distance(samples[i].position)));
+    const sorted = distances.flat().filter(d => d > 0).sort((a, b) => a - b);
+    const spacing = sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 1;
+
+    // path progress in frame spacings, with turns counted so hovering rotations take time
+    const keys: { sample: FlightSample, progress: number }[] = [];
+    let total = 0;
+    segments.forEach((samples, s) => {
+        const progress = [s > 0 ? total + flightGap : 0];
+        for (let i = 1; i < samples.length; i++) {
+            const turn = angleBetween(samples[i - 1].forward, samples[i].forward) / turnAngle;
+            progress.push(progress[i - 1] + distances[s][i - 1] / spacing + turn);
+        }
+        decimate(samples, progress, spacing).forEach((index) => {
+            keys.push({ sample: samples[index], progress: progress[index] });
+        });
+        total = progress[progress.length - 1];
+    });
+    if (!(total > 0)) {
+        return null;
+    }
+
+    const flightDuration = Math.min(maxDuration, Math.max(minDuration, total * secondsPerSpacing));
+    const duration = flightDuration + Math.max(minReturnDuration, flightDuration * returnFraction);
+
+    const times: number[] = [];
+    const positions: number[] = [];
+    const targets: number[] = [];
+    const fovs: number[] = [];
+
+    keys.forEach(({ sample, progress }) => {
+        const { position, forward, fov } = sample;
+        times.push(progress / total * flightDuration);
+        positions.push(position.x, position.y, position.z);
+        targets.push(
+            position.x + forward.x * targetDistance,
+            position.y + forward.y * targetDistance,
+            position.z + forward.z * targetDistance
+        );
+        fovs.push(fov);
+    });
+
+    return {
+        name: 'flight',
+        duration,
+        frameRate: 1,
+        loopMode: 'repeat',
+        interpolation: 'spline',
+        smoothness: 1,
+        animateFov: true,
+        keyframes: {
+            times,
+            values: {
+                position: positions,
+                target: targets,
+                fov: fovs
+            }
+        }
+    };
+};
+
+export type { FlightSample };
+
+export { createFlightTrack };
@@ -5,12 +5,16 @@ import {
     Vec3
 } from 'playcanvas';
 
+import { createFlightTrack } from './animation/create-flight-track';
 import { createRotateTrack } from './animation/create-rotate-track';
 import { AnimController } from './cameras/anim-controller';
 import { Camera, type CameraFrame, type CameraController } from './cameras/camera';
 import { FlyController } from './cameras/fly-controller';
 import { OrbitController } from './cameras/orbit-controller';
-import { easeOut } from './core/math';
+import { undistortToRay, extractLensDistortion, type LensDistortion } from './core/lens';
+import { easeOut, vecToAngles } from './core/math';
+import { matchFrames, parseFrameFilter, readFrameAttributes, type PhotoAttributes } from './frame-filter';
+import { FrameIndex, defaultFrameMatching } from './frame-index';
 import { Annotation } from './settings';
 import { CameraMode, Global } from './types';
 
@@ -25,20 +29,45 @@ const tmpQuat2 = new Quat();
 const tmpPipDir = new Vec3();
 const tmpPipWorldDir = new Vec3();
 const tmpPipTarget = new Vec3();
+const tmpEnu = new Vec3();
+const tmpNorth = new Vec3();
+const tmpFocus = new Vec3();
 
 type TransformFrame = {
     file_path?: string;
     colmap_im_id?: number;
     transform_matrix?: number[][];
     sort_key?: number;
+
+    // optional per-frame intrinsics and distortion overriding the global transforms values
+    w?: number;
+    h?: number;
+    fl_x?: number;
+    fl_y?: number;
+    cx?: number;
+    cy?: number;
+    camera_model?: string;
+    k1?: number;
+    k2?: number;
+    k3?: number;
+    k4?: number;
+    k5?: number;
+    k6?: number;
+    p1?: number;
+    p2?: number;
+    omega?: number;
 };
 
 type PreparedTransformFrame = {
     frame: TransformFrame;
+    flight: number;                             // index into global.flights
     camera: Camera;
     position: Vec3;
     forward: Vec3;
+    right: Vec3;                                // photo x axis in scene space
+    up: Vec3;                                   // photo y axis (up) in scene space
     fov: number;
+    intrinsics: CameraIntrinsics | null;
 };
 
 type PipInspectState = {
@@ -61,6 +90,18 @@ type CameraIntrinsics = {
     fy: number;
     cx: number;
     cy: number;
+    distortion: LensDistortion;
+};
+
+/**
+ * Returns the photo aspect of a transform frame, width over height.
+ *
+ * @param frame - The transform frame.
+ * @returns - The aspect of its intrinsics, or 4:3 when it has none.
+ */
+const frameAspect = (frame: PreparedTransformFrame) => {
+    const { intrinsics } = frame;
+    return intrinsics ? intrinsics.width / intrinsics.height : 4 / 3;
 };
 
 const createCamera = (position: Vec3, target: Vec3, fov: number) => {
@@ -80,30 +121,6 @@ const createFrameCamera = (bbox: BoundingBox, fov: number) => {
     );
 };
 
-const getSceneXformDegrees = (geoXform: any) => {
-    const direct = geoXform?.playcanvas_candidates?.scene_xyz_deg_x_plus_90;
-    if (direct && typeof direct.x === 'number' && typeof direct.y === 'number' && typeof direct.z === 'number') {
-        return direct;
-    }
-
-    const candidates = geoXform?.playcanvas_candidates;
-    if (candidates && typeof candidates === 'object') {
-        for (const candidate of Object.values(candidates as Record<string, any>)) {
-            const degrees = candidate?.scene_xyz_deg_x_plus_90;
-            if (degrees && typeof degrees.x === 'number' && typeof degrees.y === 'number' && typeof degrees.z === 'number') {
-                return degrees;
-            }
-        }
-    }
-
-    const legacy = geoXform?.playcanvas_scene_xyz_deg_x_plus_90;
-    if (legacy && typeof legacy.x === 'number' && typeof legacy.y === 'number' && typeof legacy.z === 'number') {
-        return legacy;
-    }
-
-    return null;
-};
-
 const frameToCamera = (frame: TransformFrame, fov: number, worldRotation: Mat4 | null) => {
     const m = frame.transform_matrix;
     if (!Array.isArray(m) || m.length < 3 ||
@@ -129,6 +146,21 @@ const frameToCamera = (frame: TransformFrame, fov: number, worldRotation: Mat4 |
     return result;
 };
 
+// photo right and up axes (first and second columns of the camera-to-world matrix) in scene space
+const frameToAxes = (frame: TransformFrame, worldRotation: Mat4 | null, right: Vec3, up: Vec3) => {
+    const m = frame.transform_matrix;
+    right.set(m[0][0], m[1][0], m[2][0]);
+    up.set(m[0][1], m[1][1], m[2][1]);
+
+    if (worldRotation) {
+        worldRotation.transformVector(right, right);
+        worldRotation.transformVector(up, up);
+    }
+
+    right.normalize();
+    up.normalize();
+};
+
 const extractFrameSortKey = (frame: TransformFrame) => {
     const filePath = frame.file_path ?? '';
     const match = filePath.match(/frame_(\d+)(?:\.[^./\\]+)?$/i);
@@ -141,14 +173,19 @@ const extractFrameSortKey = (frame: TransformFrame) => {
     return Number.POSITIVE_INFINITY;
 };
 
-const extractTransformsFov = (transforms: any, fallbackFov: number) => {
-    const w = transforms?.w;
-    const flX = transforms?.fl_x;
+// look up a transforms.json field, preferring the per-frame value
+const transformsField = (transforms: any, frame: TransformFrame | undefined, key: string) => {
+    return (frame as any)?.[key] ?? transforms?.[key];
+};
+
+const extractTransformsFov = (transforms: any, fallbackFov: number, frame?: TransformFrame) => {
+    const w = transformsField(transforms, frame, 'w');
+    const flX = transformsField(transforms, frame, 'fl_x');
     if (typeof w === 'number' && typeof flX === 'number' && w > 0 && flX > 0) {
         return 2 * Math.atan(w / (2 * flX)) * 180 / Math.PI;
     }
 
-    const cameraAngleX = transforms?.camera_angle_x;
+    const cameraAngleX = transformsField(transforms, frame, 'camera_angle_x');
     if (typeof cameraAngleX === 'number' && cameraAngleX > 0) {
         return cameraAngleX * 180 / Math.PI;
     }
@@ -156,23 +193,25 @@ const extractTransformsFov = (transforms: any, fallbackFov: number) => {
     return fallbackFov;
 };
 
-const extractCameraIntrinsics = (transforms: any): CameraIntrinsics | null => {
-    const width = transforms?.w;
-    const height = transforms?.h;
+const extractCameraIntrinsics = (transforms: any, frame?: TransformFrame): CameraIntrinsics | null => {
+    const field = (key: string) => transformsField(transforms, frame, key);
+
+    const width = field('w');
+    const height = field('h');
     if (!(typeof width === 'number' && typeof height === 'number' && width > 0 && height > 0)) {
         return null;
     }
 
-    const fx = transforms?.fl_x;
-    const fy = transforms?.fl_y;
+    const fx = field('fl_x');
+    const fy = field('fl_y');
     if (!(typeof fx === 'number' && fx > 0) && !(typeof fy === 'number' && fy > 0)) {
         return null;
     }
 
     const resolvedFx = typeof fx === 'number' && fx > 0 ? fx : fy;
     const resolvedFy = typeof fy === 'number' && fy > 0 ? fy : fx;
-    const cx = typeof transforms?.cx === 'number' ? transforms.cx : width * 0.5;
-    const cy = typeof transforms?.cy === 'number' ? transforms.cy : height * 0.5;
+    const cx = typeof field('cx') === 'number' ? field('cx') : width * 0.5;
+    const cy = typeof field('cy') === 'number' ? field('cy') : height * 0.5;
 
     return {
         width,
@@ -180,7 +219,8 @@ const extractCameraIntrinsics = (transforms: any): CameraIntrinsics | null => {
         fx: resolvedFx,
         fy: resolvedFy,
         cx,
-        cy
+        cy,
+        distortion: extractLensDistortion(field)
     };
 };
 
@@ -192,11 +232,26 @@ const cameraForwardFromAngles = (camera: Camera, out: Vec3) => {
 class CameraManager {
     update: (deltaTime: number, cameraFrame: CameraFrame) => void;
 
+    // indices of the k active transform frames best matching the current view
+    nearestFrames: (k: number) => number[];
+
+    // transform frames in capture order
+    transformFrames: PreparedTransformFrame[];
+
+    // filterable imdat attributes of the transform frames
+    frameAttributes: PhotoAttributes[];
+
+    // indices of the transform frames passing the frame filter, in capture order
+    activeFrames: number[];
+
+    // spatial index over the active transform frames
+    frameIndex: FrameIndex;
+
     // holds the camera state
     camera = new Camera();
 
     constructor(global: Global, bbox: BoundingBox) {
-        const { events, settings, state, transforms, geoXform } = global;
+        const { events, settings, state, flights, geo } = global;
 
         const camera0 = settings.cameras[0].initial;
         const frameCamera = createFrameCamera(bbox, camera0.fov);
@@ -217,56 +272,86 @@ class CameraManager {
             return null;
         };
 
+        // frames of each flight in capture order, flights one after another
+        const sceneRotation = geo.sceneRotation;
+        const preparedTransformFrames: PreparedTransformFrame[] = [];
+        flights.forEach(({ transforms }, flight) => {
+            const transformFrames = (Array.isArray(transforms?.frames) ? transforms.frames : []) as TransformFrame[];
+            const validTransformFrames = transformFrames
+            .filter(frame => Array.isArray(frame?.transform_matrix))
+            .map(frame => ({
+                ...frame,
+                sort_key: extractFrameSortKey(frame)
+            }))
+            .sort((a, b) => {
+                const byFrameNumber = a.sort_key - b.sort_key;
+                if (byFrameNumber !== 0) {
+                    return byFrameNumber;
+                }
+                return (a.file_path ?? '').localeCompare(b.file_path ?? '');
+            });
+            const transformsFov = extractTransformsFov(transforms, camera0.fov);
+            validTransformFrames.forEach((frame) => {
+                const camera = frameToCamera(frame, extractTransformsFov(transforms, transformsFov, frame), sceneRotation);
+                if (!camera) {
+                    return;
+                }
+                const right = new Vec3();
+                const up = new Vec3();
+                frameToAxes(frame, sceneRotation, right, up);
+                preparedTransformFrames.push({
+                    frame,
+                    flight,
+                    camera,
+                    position: new Vec3().copy(camera.position),
+                    forward: cameraForwardFromAngles(camera, new Vec3()),
+                    right,
+                    up,
+                    fov: camera.fov,
+                    intrinsics: extractCameraIntrinsics(transforms, frame)
+                });
+            });
+        });
+        this.transformFrames = preparedTransformFrames;
+        this.frameAttributes = readFrameAttributes(preparedTransformFrames, flights);
+
+        // restrict navigation to the frames passing the filter
+        const applyFrameFilter = (text: string) => {
+            this.activeFrames = matchFrames(this.frameAttributes, parseFrameFilter(text));
+            this.frameIndex = new FrameIndex(preparedTransformFrames, this.activeFrames);
+            events.fire('transformFrames:filtered', this.activeFrames);
+        };
+        applyFrameFilter(state.frameFilter);
+        events.on('frameFilter:changed', applyFrameFilter);
+
+        const frameMatching = { ...defaultFrameMatching, ...settings.frameMatching };
+
         // object experience starts outside the bounding box
         const isObjectExperience = !bbox.containsPoint(resetCamera.position);
         const animTrack = getAnimTrack(settings.hasStartPose ? resetCamera : frameCamera, isObjectExperience);
 
+        // otherwise replay the capture flights, available from the play button but not started. each
+        // flight is in capture order when all its photos have a capture time, else in frame order
+        const flightFrames = flights.map((_, flight) => {
+            const indices = preparedTransformFrames.map((_, index) => index).filter(index => preparedTransformFrames[index].flight === flight);
+            const times = indices.map(index => this.frameAttributes[index].time);
+            if (times.every(time => time !== null)) {
+                indices.sort((a, b) => this.frameAttributes[a].time - this.frameAttributes[b].time);
+            }
+            return indices.map(index => preparedTransformFrames[index]);
+        });
+        const playTrack = animTrack ?? createFlightTrack(flightFrames, bbox.halfExtents.length());
+
         const controllers = {
             orbit: new OrbitController(),
             fly: new FlyController(),
-            anim: animTrack ? new AnimController(animTrack) : null
+            anim: playTrack ? new AnimController(playTrack) : null
         };
 
         const getController = (cameraMode: 'orbit' | 'anim' | 'fly'): CameraController => {
             return controllers[cameraMode];
         };
 
-        const transformFrames = (Array.isArray(transforms?.frames) ? transforms.frames : []) as TransformFrame[];
-        const validTransformFrames = transformFrames
-        .filter(frame => Array.isArray(frame?.transform_matrix))
-        .map(frame => ({
-            ...frame,
-            sort_key: extractFrameSortKey(frame)
-        }))
-        .sort((a, b) => {
-            const byFrameNumber = a.sort_key - b.sort_key;
-            if (byFrameNumber !== 0) {
-                return byFrameNumber;
-            }
-            return (a.file_path ?? '').localeCompare(b.file_path ?? '');
-        });
-        const sceneRotationDegrees = getSceneXformDegrees(geoXform);
-        const sceneRotation = sceneRotationDegrees ? new Mat4().setFromEulerAngles(
-            sceneRotationDegrees.x,
-            sceneRotationDegrees.y,
-            sceneRotationDegrees.z
-        ) : null;
-        const transformsFov = extractTransformsFov(transforms, camera0.fov);
-        const transformsIntrinsics = extractCameraIntrinsics(transforms);
-        const preparedTransformFrames: PreparedTransformFrame[] = [];
-        validTransformFrames.forEach((frame) => {
-            const camera = frameToCamera(frame, transformsFov, sceneRotation);
-            if (!camera) {
-                return;
-            }
-            preparedTransformFrames.push({
-                frame,
-                camera,
-                position: new Vec3().copy(camera.position),
-                forward: cameraForwardFromAngles(camera, new Vec3()),
-                fov: camera.fov
-            });
-        });
         let transformFrameIndex = -1;
         let pipInspectActive = false;
 
@@ -275,42 +360,29 @@ class CameraManager {
                 return;
             }
 
-            const selected = preparedTransformFrames[transformFrameIndex].frame;
+            const { frame: selected, flight } = preparedTransformFrames[transformFrameIndex];
             events.fire('transformFrame:selected', {
                 index: transformFrameIndex,
                 count: preparedTransformFrames.length,
                 filePath: selected.file_path ?? null,
-                colmapImId: selected.colmap_im_id ?? null
+                colmapImId: selected.colmap_im_id ?? null,
+                flight
             });
         };
 
-        const pickNearestFrameForCurrentView = (emitSelection: boolean = true): number => {
-            if (preparedTransformFrames.length === 0) {
-                return -1;
-            }
-
+        this.nearestFrames = (k: number) => {
             const sceneScale = Math.max(1e-3, bbox.halfExtents.length() * 2);
             const currentForward = cameraForwardFromAngles(this.camera, tmpCameraForward);
+            return this.frameIndex.nearest(this.camera.position, currentForward, this.camera.fov, k, sceneScale, frameMatching).map(result => result.index);
+        };
 
-            let bestIndex = -1;
-            let bestScore = Number.POSITIVE_INFINITY;
-
-            for (let i = 0; i < preparedTransformFrames.length; i++) {
-                const candidate = preparedTransformFrames[i];
-                const positionDistNorm = this.camera.position.distance(candidate.position) / sceneScale;
-                const directionDot = Math.max(-1, Math.min(1, currentForward.dot(candidate.forward)));
-                const directionDiffNorm = Math.acos(directionDot) / Math.PI;
-                const fovDiffNorm = Math.min(1, Math.abs(this.camera.fov - candidate.fov) / 90);
-                const behindPenalty = directionDot < 0 ? 0.5 : 0;
-
-                const score = positionDistNorm * 0.4 + directionDiffNorm * 0.5 + fovDiffNorm * 0.1 + behindPenalty;
-                if (score < bestScore) {
-                    bestScore = score;
-                    bestIndex = i;
-                }
+        const pickNearestFrameForCurrentView = (emitSelection: boolean = true): number => {
+            if (preparedTransformFrames.length === 0) {
+                return -1;
             }
 
-            if (bestIndex < 0) {
+            const [bestIndex] = this.nearestFrames(1);
+            if (bestIndex === undefined) {
                 return -1;
             }
 
@@ -346,7 +418,8 @@ class CameraManager {
         };
 
         const stepTransformFrame = (step: 1 | -1) => {
-            const count = preparedTransformFrames.length;
+            const active = this.activeFrames;
+            const count = active.length;
             if (count === 0) {
                 return;
             }
@@ -358,7 +431,20 @@ class CameraManager {
                 }
             }
 
-            transformFrameIndex = (transformFrameIndex + step + count) % count;
+            // the next active frame in capture order, wrapping at the ends
+            let position = step > 0 ? active.findIndex(index => index > transformFrameIndex) : -1;
+            if (step < 0) {
+                for (let i = count - 1; i >= 0 && position < 0; i--) {
+                    if (active[i] < transformFrameIndex) {
+                        position = i;
+                    }
+                }
+            }
+            if (position < 0) {
+                position = step > 0 ? 0 : count - 1;
+            }
+
+            transformFrameIndex = active[position];
             gotoTransformFrameIndex(transformFrameIndex, '[transforms] camera -> frame');
         };
 
@@ -367,7 +453,7 @@ class CameraManager {
         state.animationDuration = controllers.anim ? controllers.anim.animState.cursor.duration : 0;
 
         // initialize camera mode and initial camera position
-        state.cameraMode = state.hasAnimation ? 'anim' : (isObjectExperience ? 'orbit' : 'fly');
+        state.cameraMode = animTrack ? 'anim' : (isObjectExperience ? 'orbit' : 'fly');
         this.camera.copy(resetCamera);
 
         const target = new Camera(this.camera);             // the active controller updates this
@@ -411,32 +497,44 @@ class CameraManager {
                 return;
             }
 
-            const base = preparedTransformFrames[transformFrameIndex].camera;
+            const selected = preparedTransformFrames[transformFrameIndex];
+            const base = selected.camera;
             const baseFovRad = base.fov * Math.PI / 180;
             const halfTan = Math.tan(baseFovRad * 0.5);
             const pipFov = 2 * Math.atan(halfTan / zoom) * 180 / Math.PI;
+            const { intrinsics } = selected;
 
-            if (transformsIntrinsics) {
+            if (intrinsics) {
                 let centerU = inspectState.centerU;
                 let centerV = inspectState.centerV;
 
                 if (!(typeof centerU === 'number' && typeof centerV === 'number')) {
-                    const sourceWidth = inspectState.sourceWidth ?? transformsIntrinsics.width;
-                    const sourceHeight = inspectState.sourceHeight ?? transformsIntrinsics.height;
+                    const sourceWidth = inspectState.sourceWidth ?? intrinsics.width;
+                    const sourceHeight = inspectState.sourceHeight ?? intrinsics.height;
                     const pixelsPerImageX = imageWidth / sourceWidth;
                     const pixelsPerImageY = imageHeight / sourceHeight;
                     centerU = sourceWidth * 0.5 - panX / (zoom * pixelsPerImageX);
                     centerV = sourceHeight * 0.5 - panY / (zoom * pixelsPerImageY);
                 }
 
-                const sourceWidth = inspectState.sourceWidth ?? transformsIntrinsics.width;
-                const sourceHeight = inspectState.sourceHeight ?? transformsIntrinsics.height;
-                const uInIntrinsics = centerU * (transformsIntrinsics.width / sourceWidth);
-                const vInIntrinsics = centerV * (transformsIntrinsics.height / sourceHeight);
-
-                const dirX = (uInIntrinsics - transformsIntrinsics.cx) / transformsIntrinsics.fx;
-                const dirY = -(vInIntrinsics - transformsIntrinsics.cy) / transformsIntrinsics.fy;
-                tmpPipDir.set(dirX, dirY, -1).normalize();
+                const sourceWidth = inspectState.sourceWidth ?? intrinsics.width;
+                const sourceHeight = inspectState.sourceHeight ?? intrinsics.height;
+                const uInIntrinsics = centerU * (intrinsics.width / sourceWidth);
+                const vInIntrinsics = centerV * (intrinsics.height / sourceHeight);
+
+                // undistort the pixel to an OpenCV camera ray (y down, z forward) and rotate it
+                // with the full frame orientation so photo roll is respected
+                undistortToRay(
+                    intrinsics.distortion,
+                    (uInIntrinsics - intrinsics.cx) / intrinsics.fx,
+                    (vInIntrinsics - intrinsics.cy) / intrinsics.fy,
+                    tmpPipDir
+                );
+                tmpPipWorldDir.copy(selected.forward).mulScalar(tmpPipDir.z);
+                tmpv.copy(selected.right).mulScalar(tmpPipDir.x);
+                tmpPipWorldDir.add(tmpv);
+                tmpv.copy(selected.up).mulScalar(-tmpPipDir.y);
+                tmpPipWorldDir.add(tmpv).normalize();
             } else {
                 const imageAspect = imageWidth / imageHeight;
                 const halfTanY = halfTan;
@@ -448,9 +546,9 @@ class CameraManager {
                     -normY * halfTanY,
                     -1
                 ).normalize();
+                tmpQuat2.setFromEulerAngles(base.angles).transformVector(tmpPipDir, tmpPipWorldDir).normalize();
             }
 
-            tmpQuat2.setFromEulerAngles(base.angles).transformVector(tmpPipDir, tmpPipWorldDir).normalize();
             tmpPipTarget.copy(base.position).add(tmpPipWorldDir);
 
             const shouldUseFly = state.cameraMode === 'fly';
@@ -542,7 +640,7 @@ class CameraManager {
         };
 
         // handle input events
-        events.on('inputEvent', (eventName, event, options?: { retainCameraMode?: boolean }) => {
+        events.on('inputEvent', (eventName, event, options?: { retainCameraMode?: boolean, index?: number }) => {
             switch (eventName) {
                 case 'frame':
                     state.cameraMode = 'orbit';
@@ -576,6 +674,28 @@ class CameraManager {
                 case 'nextTransformFrame':
                     stepTransformFrame(1);
                     break;
+                case 'faceNorth': {
+                    // keep the pitch and turn the heading to geographic north
+                    const enu = geo.sceneVectorToEnu(cameraForwardFromAngles(this.camera, tmpCameraForward), tmpEnu);
+                    tmpEnu.set(0, Math.max(Math.hypot(enu.x, enu.y), 1e-3), enu.z).normalize();
+                    geo.enuVectorToScene(tmpEnu, tmpNorth).normalize();
+
+                    tmpCamera.copy(this.camera);
+                    if (state.cameraMode === 'fly') {
+                        // turn on the spot
+                        vecToAngles(tmpCamera.angles, tmpNorth);
+                        controllers.fly.goto(tmpCamera);
+                    } else {
+                        // orbit around the focus point
+                        state.cameraMode = 'orbit';
+                        this.camera.calcFocusPoint(tmpFocus);
+                        tmpv.copy(tmpNorth).mulScalar(-this.camera.distance).add(tmpFocus);
+                        tmpCamera.look(tmpv, tmpFocus);
+                        controllers.orbit.goto(tmpCamera);
+                    }
+                    startTransition();
+                    break;
+                }
                 case 'gotoNearestTransformFrame': {
                     const nearestIndex = pickNearestFrameForCurrentView(false);
                     if (nearestIndex >= 0) {
@@ -583,6 +703,15 @@ class CameraManager {
                     }
                     break;
                 }
+                case 'gotoTransformFrame':
+                    if (typeof options?.index === 'number') {
+                        gotoTransformFrameIndex(
+                            options.index,
+                            '[transforms] camera -> frame',
+                            !!options.retainCameraMode
+                        );
+                    }
+                    break;
                 case 'gotoCurrentTransformFrame':
                     if (transformFrameIndex >= 0) {
                         gotoTransformFrameIndex(
@@ -600,13 +729,13 @@ class CameraManager {
             // snapshot the current pose before any controller mutation
             startTransition();
 
-            target.copy(this.camera);
-            fromMode = prev;
-
-            // exit the old controller
+            // exit the old controller, so the pose it restores is blended back to
             const prevController = getController(prev);
             prevController.onExit(this.camera);
 
+            target.copy(this.camera);
+            fromMode = prev;
+
             // enter new controller
             const newController = getController(value);
             newController.onEnter(this.camera);
@@ -659,4 +788,6 @@ class CameraManager {
     }
 }
 
-export { CameraManager };
+export type { CameraIntrinsics, PreparedTransformFrame, TransformFrame };
+
+export { CameraManager, frameAspect };
@@ -6,6 +6,9 @@ import { AnimTrack } from '../settings';
 class AnimController implements CameraController {
     animState: AnimState;
 
+    // field of view the camera had before a track animating it took over
+    savedFov: number | null = null;
+
     constructor(animTrack: AnimTrack) {
         this.animState = AnimState.fromTrack(animTrack);
         this.animState.update(0);
@@ -14,6 +17,10 @@ class AnimController implements CameraController {
     onEnter(camera: Camera): void {
         // snap camera to start position
         camera.look(this.animState.position, this.animState.target);
+        if (this.animState.fov !== null) {
+            this.savedFov = camera.fov;
+            camera.fov = this.animState.fov;
+        }
     }
 
     update(deltaTime: number, inputFrame: CameraFrame, camera: Camera) {
@@ -21,13 +28,19 @@ class AnimController implements CameraController {
 
         // update camera pose
         camera.look(this.animState.position, this.animState.target);
+        if (this.animState.fov !== null) {
+            camera.fov = this.animState.fov;
+        }
 
         // ignore input
         inputFrame.read();
     }
 
     onExit(camera: Camera): void {
-
+        if (this.savedFov !== null) {
+            camera.fov = this.savedFov;
+            this.savedFov = null;
+        }
     }
 }
 
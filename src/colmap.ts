@@ -0,0 +1,316 @@
+type ColmapCamera = {
+    id: number;
+    model: string;
+    width: number;
+    height: number;
+    params: number[];
+};
+
+type ColmapImage = {
+    id: number;
+    qvec: [number, number, number, number];     // world-to-camera rotation (w, x, y, z)
+    tvec: [number, number, number];             // world-to-camera translation
+    cameraId: number;
+    name: string;
+};
+
+type ColmapModel = {
+    cameras: Map<number, ColmapCamera>;
+    images: ColmapImage[];
+};
+
+// camera models by id with their parameter count, see colmap/src/colmap/sensor/models.h
+const cameraModels: [string, number][] = [
+    ['SIMPLE_PINHOLE', 3],
+    ['PINHOLE', 4],
+    ['SIMPLE_RADIAL', 4],
+    ['RADIAL', 5],
+    ['OPENCV', 8],
+    ['OPENCV_FISHEYE', 8],
+    ['FULL_OPENCV', 12],
+    ['FOV', 5],
+    ['SIMPLE_RADIAL_FISHEYE', 4],
+    ['RADIAL_FISHEYE', 5],
+    ['THIN_PRISM_FISHEYE', 12]
+];
+
+// parameter names of each camera model in the order colmap stores them
+const cameraParams: Record<string, string[]> = {
+    SIMPLE_PINHOLE: ['f', 'cx', 'cy'],
+    PINHOLE: ['fx', 'fy', 'cx', 'cy'],
+    SIMPLE_RADIAL: ['f', 'cx', 'cy', 'k1'],
+    RADIAL: ['f', 'cx', 'cy', 'k1', 'k2'],
+    OPENCV: ['fx', 'fy', 'cx', 'cy', 'k1', 'k2', 'p1', 'p2'],
+    OPENCV_FISHEYE: ['fx', 'fy', 'cx', 'cy', 'k1', 'k2', 'k3', 'k4'],
+    FULL_OPENCV: ['fx', 'fy', 'cx', 'cy', 'k1', 'k2', 'p1', 'p2', 'k3', 'k4', 'k5', 'k6'],
+    FOV: ['fx', 'fy', 'cx', 'cy', 'omega'],
+    SIMPLE_RADIAL_FISHEYE: ['f', 'cx', 'cy', 'k1'],
+    RADIAL_FISHEYE: ['f', 'cx', 'cy', 'k1', 'k2'],
+    THIN_PRISM_FISHEYE: ['fx', 'fy', 'cx', 'cy', 'k1', 'k2', 'p1', 'p2', 'k3', 'k4', 'sx1', 'sy1']
+};
+
+// fisheye models map to the nerfstudio OPENCV_FISHEYE model, FULL_OPENCV and FOV keep their own
+// models and everything else maps to OPENCV
+const fisheyeModels = ['OPENCV_FISHEYE', 'SIMPLE_RADIAL_FISHEYE', 'RADIAL_FISHEYE', 'THIN_PRISM_FISHEYE'];
+const ownModels = ['FULL_OPENCV', 'FOV'];
+
+// distortion parameters each transforms camera model uses
+const modelDistortion: Record<string, string[]> = {
+    OPENCV: ['k1', 'k2', 'k3', 'p1', 'p2'],
+    OPENCV_FISHEYE: ['k1', 'k2', 'k3', 'k4'],
+    FULL_OPENCV: ['k1', 'k2', 'k3', 'k4', 'k5', 'k6', 'p1', 'p2'],
+    FOV: ['omega']
+};
+
+const intrinsicParams = ['f', 'fx', 'fy', 'cx', 'cy'];
+
+// nerfstudio's colmap import swaps the world y and z axes and flips the new z, so the splats
+// trained from it are in this frame rather than COLMAP's
+const appliedTransform = [[1, 0, 0, 0], [0, 0, 1, 0], [0, -1, 0, 0]];
+
+const dataLines = (text: string) => {
+    return text.split(/\r?\n/).filter(line => !line.startsWith('#'));
+};
+
+const parseCamerasTxt = (text: string) => {
+    const cameras = new Map<number, ColmapCamera>();
+    dataLines(text).forEach((line) => {
+        const parts = line.trim().split(/\s+/);
+        if (parts.length < 5) {
+            return;
+        }
+        const [id, model, width, height, ...params] = parts;
+        cameras.set(Number(id), {
+            id: Number(id),
+            model,
+            width: Number(width),
+            height: Number(height),
+            params: params.map(Number)
+        });
+    });
+    return cameras;
+};
+
+const parseImagesTxt = (text: string) => {
+    const images: ColmapImage[] = [];
+    const lines = dataLines(text);
+
+    // each image is a header line followed by a (possibly empty) line of 2D points
+    for (let i = 0; i < lines.length; i++) {
+        const parts = lines[i].trim().split(/\s+/);
+        if (parts.length < 10) {
+            continue;
+        }
+        const values = parts.slice(0, 9).map(Number);
+        images.push({
+            id: values[0],
+            qvec: [values[1], values[2], values[3], values[4]],
+            tvec: [values[5], values[6], values[7]],
+            cameraId: values[8],
+            name: parts.slice(9).join(' ')
+        });
+        i++;
+    }
+    return images;
+};
+
+const parseCamerasBin = (buffer: ArrayBuffer) => {
+    const view = new DataView(buffer);
+    const cameras = new Map<number, ColmapCamera>();
+
+    let offset = 0;
+    const count = Number(view.getBigUint64(offset, true));
+    offset += 8;
+
+    for (let i = 0; i < count; i++) {
+        const id = view.getInt32(offset, true);
+        const modelId = view.getInt32(offset + 4, true);
+        const width = Number(view.getBigUint64(offset + 8, true));
+        const height = Number(view.getBigUint64(offset + 16, true));
+        offset += 24;
+
+        const model = cameraModels[modelId];
+        if (!model) {
+            throw new Error(`Unsupported COLMAP camera model id ${modelId}`);
+        }
+
+        const params: number[] = [];
+        for (let p = 0; p < model[1]; p++) {
+            params.push(view.getFloat64(offset, true));
+            offset += 8;
+        }
+
+        cameras.set(id, { id, model: model[0], width, height, params });
+    }
+    return cameras;
+};
+
+const parseImagesBin = (buffer: ArrayBuffer) => {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const decoder = new TextDecoder();
+    const images: ColmapImage[] = [];
+
+    let offset = 0;
+    const count = Number(view.getBigUint64(offset, true));
+    offset += 8;
+
+    for (let i = 0; i < count; i++) {
+        const id = view.getInt32(offset, true);
+        offset += 4;
+
+        const values: number[] = [];
+        for (let v = 0; v < 7; v++) {
+            values.push(view.getFloat64(offset, true));
+            offset += 8;
+        }
+
+        const cameraId = view.getInt32(offset, true);
+        offset += 4;
+
+        const nameEnd = bytes.indexOf(0, offset);
+        const name = decoder.decode(bytes.subarray(offset, nameEnd));
+        offset = nameEnd + 1;
+
+        // skip the 2D points: x, y (float64) and point3D id (int64)
+        const numPoints = Number(view.getBigUint64(offset, true));
+        offset += 8 + numPoints * 24;
+
+        images.push({
+            id,
+            qvec: [values[0], values[1], values[2], values[3]],
+            tvec: [values[4], values[5], values[6]],
+            cameraId,
+            name
+        });
+    }
+    return images;
+};
+
+// return the camera intrinsics and distortion using nerfstudio transforms.json field names
+const cameraToIntrinsics = (camera: ColmapCamera) => {
+    const names = cameraParams[camera.model];
+    if (!names) {
+        return null;
+    }
+
+    const values: Record<string, number> = {};
+    names.forEach((name, i) => {
+        values[name] = camera.params[i];
+    });
+
+    const cameraModel = fisheyeModels.includes(camera.model) ? 'OPENCV_FISHEYE' : (ownModels.includes(camera.model) ? camera.model : 'OPENCV');
+    const result: Record<string, any> = {
+        w: camera.width,
+        h: camera.height,
+        fl_x: values.fx ?? values.f,
+        fl_y: values.fy ?? values.f,
+        cx: values.cx,
+        cy: values.cy,
+        camera_model: cameraModel
+    };
+
+    // terms the lens model can't apply are reported rather than silently dropped
+    const unsupported: string[] = [];
+    names.forEach((name) => {
+        if (modelDistortion[cameraModel].includes(name)) {
+            result[name] = values[name];
+        } else if (!intrinsicParams.includes(name) && values[name]) {
+            unsupported.push(name);
+        }
+    });
+    if (unsupported.length > 0) {
+        console.warn(`COLMAP camera ${camera.id} (${camera.model}): ignoring unsupported distortion terms ${unsupported.join(', ')}`);
+    }
+
+    return result;
+};
+
+/**
+ * Converts a COLMAP model to a transforms.json style object. Poses are converted from
+ * world-to-camera (OpenCV axes) to camera-to-world (OpenGL axes) and moved to the world frame
+ * nerfstudio's colmap import uses, which is recorded as applied_transform. Each frame carries its
+ * own intrinsics; when the model has a single camera they are also written at the top level.
+ *
+ * @param model - The parsed COLMAP model.
+ * @returns - The transforms object.
+ */
+const colmapToTransforms = (model: ColmapModel) => {
+    // converted once per camera so unsupported terms are reported once
+    const intrinsics = new Map<number, Record<string, any> | null>();
+    model.cameras.forEach((camera, id) => intrinsics.set(id, cameraToIntrinsics(camera)));
+
+    const frames = model.images.map((image) => {
+        const [tx, ty, tz] = image.tvec;
+
+        // world-to-camera rotation rows from the normalized quaternion (colmap qvec2rotmat)
+        const len = Math.hypot(...image.qvec) || 1;
+        const [w, x, y, z] = image.qvec.map(v => v / len);
+        const r0 = [1 - 2 * y * y - 2 * z * z, 2 * x * y - 2 * z * w, 2 * z * x + 2 * y * w];
+        const r1 = [2 * x * y + 2 * z * w, 1 - 2 * x * x - 2 * z * z, 2 * y * z - 2 * x * w];
+        const r2 = [2 * z * x - 2 * y * w, 2 * y * z + 2 * x * w, 1 - 2 * x * x - 2 * y * y];
+
+        // camera center c = -R^T t
+        const c = [0, 1, 2].map(k => -(r0[k] * tx + r1[k] * ty + r2[k] * tz));
+
+        // camera-to-world rotation is R^T, with the y and z axes flipped for OpenGL
+        const colmapMatrix = [0, 1, 2].map(k => [r0[k], -r1[k], -r2[k], c[k]]);
+
+        // then the world rows are transformed as nerfstudio does
+        const transformMatrix = appliedTransform.map(row => [0, 1, 2, 3].map(col => row[0] * colmapMatrix[0][col] + row[1] * colmapMatrix[1][col] + row[2] * colmapMatrix[2][col]));
+        transformMatrix.push([0, 0, 0, 1]);
+
+        return {
+            file_path: `images/${image.name}`,
+            colmap_im_id: image.id,
+            transform_matrix: transformMatrix,
+            ...intrinsics.get(image.cameraId)
+        };
+    });
+
+    return {
+        ...(intrinsics.size === 1 ? intrinsics.values().next().value : {}),
+        applied_transform: appliedTransform,
+        frames
+    };
+};
+
+/**
+ * Loads a COLMAP sparse model from a directory url, preferring the binary files and falling back
+ * to the text export.
+ *
+ * @param baseUrl - Url of the directory containing cameras.bin/images.bin or cameras.txt/images.txt.
+ * @returns - The model converted to a transforms.json style object.
+ */
+const loadColmapTransforms = async (baseUrl: string) => {
+    const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+
+    const fetchOk = async (filename: string) => {
+        const response = await fetch(`${base}${filename}`);
+        if (!response.ok) {
+            throw new Error(`Failed to load ${base}${filename}: ${response.status}`);
+        }
+        return response;
+    };
+
+    let model: ColmapModel;
+    try {
+        const [cameras, images] = await Promise.all([fetchOk('cameras.bin'), fetchOk('images.bin')]);
+        model = {
+            cameras: parseCamerasBin(await cameras.arrayBuffer()),
+            images: parseImagesBin(await images.arrayBuffer())
+        };
+    } catch (err) {
+        const [cameras, images] = await Promise.all([fetchOk('cameras.txt'), fetchOk('images.txt')]);
+        model = {
+            cameras: parseCamerasTxt(await cameras.text()),
+            images: parseImagesTxt(await images.text())
+        };
+    }
+
+    return colmapToTransforms(model);
+};
+
+export type { ColmapCamera, ColmapImage, ColmapModel };
+
+export { colmapToTransforms, loadColmapTransforms, parseCamerasBin, parseCamerasTxt, parseImagesBin, parseImagesTxt };
@@ -0,0 +1,62 @@
+import { Quat, Vec3 } from 'playcanvas';
+
+import type { CameraManager } from './camera-manager';
+import { getElementsById } from './dom';
+import type { Global } from './types';
+
+const cardinals = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+const tmpQuat = new Quat();
+const tmpForward = new Vec3();
+const tmpEnu = new Vec3();
+
+/**
+ * HUD compass showing the camera heading relative to geographic north and the camera pitch.
+ * Clicking the dial turns the view to face north.
+ */
+class Compass {
+    // degrees clockwise from north
+    heading = 0;
+
+    // degrees above the horizon
+    pitch = 0;
+
+    constructor(global: Global, cameraManager: CameraManager) {
+        const { app, events, geo } = global;
+
+        const dom = getElementsById(['compass', 'compassDial', 'compassNeedle', 'compassText']);
+
+        let shownHeading = NaN;
+        let shownPitch = NaN;
+
+        const update = () => {
+            tmpQuat.setFromEulerAngles(cameraManager.camera.angles).transformVector(Vec3.FORWARD, tmpForward);
+            const enu = geo.sceneVectorToEnu(tmpForward, tmpEnu);
+
+            this.heading = (Math.atan2(enu.x, enu.y) * 180 / Math.PI + 360) % 360;
+            this.pitch = Math.atan2(enu.z, Math.hypot(enu.x, enu.y)) * 180 / Math.PI;
+
+            // only touch the dom when the rounded values change
+            const heading = Math.round(this.heading) % 360;
+            const pitch = Math.round(this.pitch);
+            if (heading !== shownHeading || pitch !== shownPitch) {
+                shownHeading = heading;
+                shownPitch = pitch;
+                dom.compassNeedle.style.transform = `rotate(${-this.heading}deg)`;
+                dom.compassText.textContent = `${heading}° ${cardinals[Math.round(heading / 45) % 8]}\nPitch ${pitch}°`;
+            }
+        };
+
+        app.on('prerender', update);
+
+        dom.compass.addEventListener('pointerdown', event => event.stopPropagation());
+        dom.compassDial.addEventListener('click', (event) => {
+            events.fire('inputEvent', 'faceNorth', event);
+        });
+
+        dom.compass.classList.remove('hidden');
+        update();
+    }
+}
+
+export { Compass };
@@ -0,0 +1,54 @@
+import type { Vec3 } from 'playcanvas';
+
+import { formatCoordinateLines } from './geo/format';
+import type { Global } from './types';
+
+// Initialize the HUD panel showing real-world coordinates of the last picked point
+const initCoordinateInspector = (dom: Record<string, HTMLElement>, global: Global) => {
+    const { events, geo } = global;
+    const copyLabel = dom.coordinateCopy.textContent;
+
+    let text = '';
+    let copyTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const hide = () => {
+        dom.coordinatePanel.classList.add('hidden');
+    };
+
+    events.on('pick', (position: Vec3) => {
+        const coordinate = geo.sceneToCoordinate(position);
+
+        text = formatCoordinateLines(coordinate).join('\n');
+        dom.coordinateText.textContent = text;
+        dom.coordinatePanel.classList.remove('hidden');
+
+        events.fire('coordinate:picked', coordinate);
+    });
+
+    dom.coordinateCopy.addEventListener('click', (event) => {
+        event.stopPropagation();
+        navigator.clipboard?.writeText(text).then(() => {
+            dom.coordinateCopy.textContent = 'Copied';
+            if (copyTimeout) {
+                clearTimeout(copyTimeout);
+            }
+            copyTimeout = setTimeout(() => {
+                copyTimeout = null;
+                dom.coordinateCopy.textContent = copyLabel;
+            }, 1500);
+        }).catch(() => {});
+    });
+
+    dom.coordinateClose.addEventListener('click', (event) => {
+        event.stopPropagation();
+        hide();
+    });
+
+    events.on('inputEvent', (eventName) => {
+        if (eventName === 'cancel') {
+            hide();
+        }
+    });
+};
+
+export { initCoordinateInspector };
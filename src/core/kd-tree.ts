@@ -0,0 +1,203 @@
+import { Vec3 } from 'playcanvas';
+
+// an item found by a search and its score, lower is better
+type KdResult = {
+    item: number;
+    score: number;
+};
+
+const tmpMin = new Vec3();
+const tmpMax = new Vec3();
+
+// squared distance from a point to an axis aligned box
+const boxDistanceSq = (point: Vec3, min: Vec3, max: Vec3) => {
+    const dx = Math.max(min.x - point.x, 0, point.x - max.x);
+    const dy = Math.max(min.y - point.y, 0, point.y - max.y);
+    const dz = Math.max(min.z - point.z, 0, point.z - max.z);
+    return dx * dx + dy * dy + dz * dz;
+};
+
+// insert into results sorted by score, keeping at most k
+const insertResult = (results: KdResult[], k: number, item: number, score: number) => {
+    if (results.length >= k && score >= results[results.length - 1].score) {
+        return;
+    }
+    let i = results.length;
+    while (i > 0 && results[i - 1].score > score) {
+        i--;
+    }
+    results.splice(i, 0, { item, score });
+    if (results.length > k) {
+        results.pop();
+    }
+};
+
+/**
+ * Static k-d tree over 3D points. Nodes are the medians of index ranges, so the tree is stored
+ * as a permutation of the points plus a bounding box per node.
+ */
+class KdTree {
+    // point coordinates, 3 per point
+    private points: Float64Array;
+
+    // point indices ordered so each range's median is its node
+    private order: Int32Array;
+
+    // item reported for each point
+    private ids: Int32Array;
+
+    // bounding box of each node's range, 6 per node
+    private bounds: Float64Array;
+
+    /**
+     * @param points - The points to index.
+     * @param ids - Item reported for each point, defaults to the point's index.
+     */
+    constructor(points: Vec3[], ids?: ArrayLike<number>) {
+        const count = points.length;
+        this.ids = ids ? Int32Array.from(ids) : Int32Array.from({ length: count }, (_, i) => i);
+        this.points = new Float64Array(count * 3);
+        points.forEach((p, i) => this.points.set([p.x, p.y, p.z], i * 3));
+        this.order = Int32Array.from({ length: count }, (_, i) => i);
+        this.bounds = new Float64Array(count * 6);
+        this.build(0, count);
+    }
+
+    get size() {
+        return this.order.length;
+    }
+
+    private build(lo: number, hi: number) {
+        if (lo >= hi) {
+            return;
+        }
+
+        const { points, order, bounds } = this;
+        const mid = (lo + hi) >> 1;
+
+        // bounds of the range
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        for (let i = lo; i < hi; i++) {
+            for (let a = 0; a < 3; a++) {
+                const v = points[order[i] * 3 + a];
+                min[a] = Math.min(min[a], v);
+                max[a] = Math.max(max[a], v);
+            }
+        }
+        bounds.set([...min, ...max], mid * 6);
+
+        // split along the widest axis at the median
+        const extents = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+        const axis = extents.indexOf(Math.max(...extents));
+        const sorted = Array.from(order.subarray(lo, hi)).sort((a, b) => points[a * 3 + axis] - points[b * 3 + axis]);
+        order.set(sorted, lo);
+
+        this.build(lo, mid);
+        this.build(mid + 1, hi);
+    }
+
+    // lower bound of a range's box, reading the bounds into the temporaries first
+    private rangeBound(lo: number, hi: number, bound: (min: Vec3, max: Vec3) => number) {
+        if (lo >= hi) {
+            return Infinity;
+        }
+        const { bounds } = this;
+        const o = ((lo + hi) >> 1) * 6;
+        tmpMin.set(bounds[o], bounds[o + 1], bounds[o + 2]);
+        tmpMax.set(bounds[o + 3], bounds[o + 4], bounds[o + 5]);
+        return bound(tmpMin, tmpMax);
+    }
+
+    /**
+     * Branch and bound search for the k lowest scoring items. Results already in the list take
+     * part, so several trees can be searched into one list.
+     *
+     * @param k - Number of results to keep.
+     * @param bound - Returns a lower bound of the score of any item within a box.
+     * @param score - Returns the score of an item, given the item and its point index.
+     * @param results - Sorted results, updated in place.
+     * @returns - The results.
+     */
+    search(k: number, bound: (min: Vec3, max: Vec3) => number, score: (item: number, index: number) => number, results: KdResult[] = []) {
+        const visit = (lo: number, hi: number, lowerBound: number) => {
+            if (lo >= hi || (results.length >= k && lowerBound >= results[results.length - 1].score)) {
+                return;
+            }
+
+            const mid = (lo + hi) >> 1;
+            const index = this.order[mid];
+            insertResult(results, k, this.ids[index], score(this.ids[index], index));
+
+            // descend into the more promising child first
+            const leftBound = this.rangeBound(lo, mid, bound);
+            const rightBound = this.rangeBound(mid + 1, hi, bound);
+            if (leftBound <= rightBound) {
+                visit(lo, mid, leftBound);
+                visit(mid + 1, hi, rightBound);
+            } else {
+                visit(mid + 1, hi, rightBound);
+                visit(lo, mid, leftBound);
+            }
+        };
+
+        visit(0, this.size, this.rangeBound(0, this.size, bound));
+        return results;
+    }
+
+    /**
+     * Finds the k items nearest a point.
+     *
+     * @param point - The query point.
+     * @param k - Number of results.
+     * @returns - Items and distances, nearest first.
+     */
+    nearest(point: Vec3, k: number) {
+        const { points } = this;
+        return this.search(
+            k,
+            (min, max) => Math.sqrt(boxDistanceSq(point, min, max)),
+            (_, index) => Math.hypot(points[index * 3] - point.x, points[index * 3 + 1] - point.y, points[index * 3 + 2] - point.z)
+        );
+    }
+
+    /**
+     * Collects the items passing a test, skipping the branches whose box can't hold one.
+     *
+     * @param accept - Returns whether any item within a box may pass.
+     * @param test - Returns whether an item passes, given the item and its point index.
+     * @param out - Receives the items, in no particular order.
+     * @returns - The items.
+     */
+    collect(accept: (min: Vec3, max: Vec3) => boolean, test: (item: number, index: number) => boolean, out: number[] = []) {
+        const { order, ids, bounds } = this;
+
+        const visit = (lo: number, hi: number) => {
+            if (lo >= hi) {
+                return;
+            }
+            const mid = (lo + hi) >> 1;
+            const o = mid * 6;
+            tmpMin.set(bounds[o], bounds[o + 1], bounds[o + 2]);
+            tmpMax.set(bounds[o + 3], bounds[o + 4], bounds[o + 5]);
+            if (!accept(tmpMin, tmpMax)) {
+                return;
+            }
+
+            const index = order[mid];
+            if (test(ids[index], index)) {
+                out.push(ids[index]);
+            }
+
+            visit(lo, mid);
+            visit(mid + 1, hi);
+        };
+
+        visit(0, this.size);
+        return out;
+    }
+}
+
+export type { KdResult };
+
+export { KdTree };
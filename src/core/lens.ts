@@ -0,0 +1,190 @@
+import type { Vec3 } from 'playcanvas';
+
+// 'rational' is the OpenCV model with k4..k6 in the denominator (COLMAP FULL_OPENCV), 'fov' the
+// COLMAP FOV model
+type LensModel = 'pinhole' | 'opencv' | 'rational' | 'fisheye' | 'fov';
+
+// distortion coefficients using the OpenCV / nerfstudio naming
+type LensDistortion = {
+    model: LensModel;
+    k1: number;
+    k2: number;
+    k3: number;
+    k4: number;
+    k5: number;
+    k6: number;
+    p1: number;
+    p2: number;
+    omega: number;                              // field of view of the FOV model in radians
+};
+
+const maxIterations = 20;
+const epsilon = 1e-12;
+
+// read the lens model and coefficients from a transforms.json style object
+const extractLensDistortion = (source: (key: string) => any): LensDistortion => {
+    const coefficient = (key: string) => {
+        const value = source(key);
+        return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+    };
+
+    const cameraModel = source('camera_model');
+    const result: LensDistortion = {
+        model: 'pinhole',
+        k1: coefficient('k1'),
+        k2: coefficient('k2'),
+        k3: coefficient('k3'),
+        k4: coefficient('k4'),
+        k5: coefficient('k5'),
+        k6: coefficient('k6'),
+        p1: coefficient('p1'),
+        p2: coefficient('p2'),
+        omega: coefficient('omega')
+    };
+
+    if (cameraModel === 'OPENCV_FISHEYE') {
+        result.model = 'fisheye';
+    } else if (cameraModel === 'FULL_OPENCV') {
+        result.model = 'rational';
+    } else if (cameraModel === 'FOV') {
+        result.model = result.omega > epsilon ? 'fov' : 'pinhole';
+    } else if (result.k1 || result.k2 || result.k3 || result.p1 || result.p2) {
+        result.model = 'opencv';
+    }
+
+    return result;
+};
+
+/**
+ * Converts a distorted normalized image point ((u - cx) / fx, (v - cy) / fy) to a unit ray in
+ * OpenCV camera space (x right, y down, z forward). The distortion models are inverted
+ * iteratively.
+ *
+ * @param distortion - The lens distortion.
+ * @param xd - Distorted normalized x.
+ * @param yd - Distorted normalized y.
+ * @param out - The ray to write.
+ * @returns - The ray.
+ */
+const undistortToRay = (distortion: LensDistortion, xd: number, yd: number, out: Vec3) => {
+    const { model, k1, k2, k3, k4, k5, k6, p1, p2, omega } = distortion;
+
+    if (model === 'fisheye') {
+        // theta_d = theta * (1 + k1 theta^2 + k2 theta^4 + k3 theta^6 + k4 theta^8), solved by Newton
+        const thetaD = Math.hypot(xd, yd);
+        if (thetaD < epsilon) {
+            return out.set(0, 0, 1);
+        }
+
+        let theta = thetaD;
+        for (let i = 0; i < maxIterations; i++) {
+            const t2 = theta * theta;
+            const t4 = t2 * t2;
+            const t6 = t4 * t2;
+            const t8 = t4 * t4;
+            const f = theta * (1 + k1 * t2 + k2 * t4 + k3 * t6 + k4 * t8) - thetaD;
+            const df = 1 + 3 * k1 * t2 + 5 * k2 * t4 + 7 * k3 * t6 + 9 * k4 * t8;
+            const step = f / df;
+            theta -= step;
+            if (Math.abs(step) < epsilon) {
+                break;
+            }
+        }
+
+        const s = Math.sin(theta) / thetaD;
+        return out.set(xd * s, yd * s, Math.cos(theta)).normalize();
+    }
+
+    if (model === 'fov') {
+        // r_d = atan(2 r tan(omega / 2)) / omega, inverted in closed form
+        const rd = Math.hypot(xd, yd);
+        if (rd < epsilon) {
+            return out.set(xd, yd, 1).normalize();
+        }
+        const r = Math.tan(rd * omega) / (2 * Math.tan(omega * 0.5));
+        return out.set(xd * r / rd, yd * r / rd, 1).normalize();
+    }
+
+    let x = xd;
+    let y = yd;
+
+    if (model === 'opencv' || model === 'rational') {
+        // fixed point iteration as in cv::undistortPoints
+        for (let i = 0; i < maxIterations; i++) {
+            const r2 = x * x + y * y;
+            const radial = model === 'rational' ?
+                (1 + k1 * r2 + k2 * r2 * r2 + k3 * r2 * r2 * r2) / (1 + k4 * r2 + k5 * r2 * r2 + k6 * r2 * r2 * r2) :
+                1 + k1 * r2 + k2 * r2 * r2 + k3 * r2 * r2 * r2;
+            const dx = 2 * p1 * x * y + p2 * (r2 + 2 * x * x);
+            const dy = p1 * (r2 + 2 * y * y) + 2 * p2 * x * y;
+            const nx = (xd - dx) / radial;
+            const ny = (yd - dy) / radial;
+            const delta = Math.abs(nx - x) + Math.abs(ny - y);
+            x = nx;
+            y = ny;
+            if (delta < epsilon) {
+                break;
+            }
+        }
+    }
+
+    return out.set(x, y, 1).normalize();
+};
+
+/**
+ * Projects a ray in OpenCV camera space to a distorted normalized image point, the inverse of
+ * undistortToRay.
+ *
+ * @param distortion - The lens distortion.
+ * @param ray - The ray, which must point in front of the camera.
+ * @param out - Receives the distorted normalized point in x and y.
+ * @returns - The point or null when the ray is not in front of the camera.
+ */
+const projectRay = (distortion: LensDistortion, ray: Vec3, out: Vec3) => {
+    if (ray.z <= epsilon) {
+        return null;
+    }
+
+    const { model, k1, k2, k3, k4, k5, k6, p1, p2, omega } = distortion;
+    const x = ray.x / ray.z;
+    const y = ray.y / ray.z;
+
+    if (model === 'fisheye') {
+        const r = Math.hypot(x, y);
+        if (r < epsilon) {
+            return out.set(x, y, 0);
+        }
+        const theta = Math.atan(r);
+        const t2 = theta * theta;
+        const t4 = t2 * t2;
+        const thetaD = theta * (1 + k1 * t2 + k2 * t4 + k3 * t4 * t2 + k4 * t4 * t4);
+        return out.set(x * thetaD / r, y * thetaD / r, 0);
+    }
+
+    if (model === 'fov') {
+        const r = Math.hypot(x, y);
+        if (r < epsilon) {
+            return out.set(x, y, 0);
+        }
+        const rd = Math.atan(2 * r * Math.tan(omega * 0.5)) / omega;
+        return out.set(x * rd / r, y * rd / r, 0);
+    }
+
+    if (model === 'opencv' || model === 'rational') {
+        const r2 = x * x + y * y;
+        const radial = model === 'rational' ?
+            (1 + k1 * r2 + k2 * r2 * r2 + k3 * r2 * r2 * r2) / (1 + k4 * r2 + k5 * r2 * r2 + k6 * r2 * r2 * r2) :
+            1 + k1 * r2 + k2 * r2 * r2 + k3 * r2 * r2 * r2;
+        return out.set(
+            x * radial + 2 * p1 * x * y + p2 * (r2 + 2 * x * x),
+            y * radial + p1 * (r2 + 2 * y * y) + 2 * p2 * x * y,
+            0
+        );
+    }
+
+    return out.set(x, y, 0);
+};
+
+export type { LensDistortion, LensModel };
+
+export { extractLensDistortion, projectRay, undistortToRay };
@@ -0,0 +1,14 @@
+/**
+ * Looks up the elements with the given ids.
+ *
+ * @param ids - The element ids.
+ * @returns - The elements keyed by id.
+ */
+const getElementsById = (ids: string[]) => {
+    return ids.reduce((acc: Record<string, HTMLElement>, id) => {
+        acc[id] = document.getElementById(id);
+        return acc;
+    }, {});
+};
+
+export { getElementsById };
@@ -0,0 +1,263 @@
+import type { ImageCache } from './image-cache';
+
+// bytes read from the start of a photo, the exif and xmp segments come before the image data
+const headerBytes = 256 * 1024;
+
+const xmpSignature = 'http://ns.adobe.com/xap/1.0/\0';
+
+// xmp namespaces copied into the record, others are mostly editing history
+const xmpNamespaces = ['drone-dji', 'Camera', 'exif', 'tiff'];
+
+// tiff tags read from IFD0 and the exif IFD, by tag id
+const tiffTags: Record<number, string> = {
+    0x010f: 'Make',
+    0x0110: 'Model',
+    0x0132: 'ModifyDate',
+    0x829a: 'ExposureTime',
+    0x829d: 'FNumber',
+    0x8827: 'ISOSpeedRatings',
+    0x9003: 'DateTimeOriginal',
+    0x9004: 'CreateDate',
+    0x9011: 'OffsetTimeOriginal',
+    0x920a: 'FocalLength',
+    0xa002: 'ExifImageWidth',
+    0xa003: 'ExifImageHeight',
+    0xa405: 'FocalLengthIn35mmFormat',
+    0xa431: 'BodySerialNumber',
+    0xa434: 'LensModel'
+};
+
+const exifPointer = 0x8769;
+const gpsPointer = 0x8825;
+
+// bytes per component of each tiff field type
+const typeSizes: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// read the entries of a tiff IFD as tag -> value
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean) => {
+    const result = new Map<number, any>();
+    if (tiff + offset + 2 > view.byteLength) {
+        return result;
+    }
+
+    const count = view.getUint16(tiff + offset, little);
+    for (let i = 0; i < count; i++) {
+        const entry = tiff + offset + 2 + i * 12;
+        if (entry + 12 > view.byteLength) {
+            break;
+        }
+
+        const tag = view.getUint16(entry, little);
+        const type = view.getUint16(entry + 2, little);
+        const components = view.getUint32(entry + 4, little);
+        const size = (typeSizes[type] ?? 0) * components;
+        const start = size <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+        if (size === 0 || start + size > view.byteLength) {
+            continue;
+        }
+
+        const values: any[] = [];
+        for (let c = 0; c < components && values.length < 64; c++) {
+            const at = start + c * typeSizes[type];
+            switch (type) {
+                case 1:
+                case 7:
+                    values.push(view.getUint8(at));
+                    break;
+                case 3:
+                    values.push(view.getUint16(at, little));
+                    break;
+                case 4:
+                    values.push(view.getUint32(at, little));
+                    break;
+                case 9:
+                    values.push(view.getInt32(at, little));
+                    break;
+                case 5:
+                    values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1));
+                    break;
+                case 10:
+                    values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1));
+                    break;
+            }
+        }
+
+        if (type === 2) {
+            const bytes = new Uint8Array(view.buffer, view.byteOffset + start, size);
+            result.set(tag, new TextDecoder().decode(bytes).replace(/\0[\s\S]*$/, '').trim());
+        } else {
+            result.set(tag, components === 1 ? values[0] : values);
+        }
+    }
+    return result;
+};
+
+const readTiff = (view: DataView, tiff: number, record: Record<string, any>) => {
+    // byte order, magic number and offset of the first IFD
+    if (tiff + 8 > view.byteLength) {
+        return;
+    }
+    const order = view.getUint16(tiff);
+    if (order !== 0x4949 && order !== 0x4d4d) {
+        return;
+    }
+    const little = order === 0x4949;
+
+    const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+    const exif = ifd0.has(exifPointer) ? readIfd(view, tiff, ifd0.get(exifPointer), little) : new Map();
+    [ifd0, exif].forEach((ifd) => {
+        ifd.forEach((value, tag) => {
+            const name = tiffTags[tag];
+            if (name && value !== '' && value !== undefined) {
+                record[`exif:${name}`] = value;
+            }
+        });
+    });
+
+    if (ifd0.has(gpsPointer)) {
+        const gps = readIfd(view, tiff, ifd0.get(gpsPointer), little);
+        const degrees = (value: any, ref: string, negative: string) => {
+            if (!Array.isArray(value) || value.length < 3) {
+                return undefined;
+            }
+            const result = value[0] + value[1] / 60 + value[2] / 3600;
+            return ref === negative ? -result : result;
+        };
+        const lat = degrees(gps.get(2), gps.get(1), 'S');
+        const lon = degrees(gps.get(4), gps.get(3), 'W');
+        if (lat !== undefined && lon !== undefined) {
+            record['exif:GPSLatitude'] = lat;
+            record['exif:GPSLongitude'] = lon;
+        }
+        if (typeof gps.get(6) === 'number') {
+            // altitude reference 1 is below sea level
+            record['exif:GPSAltitude'] = gps.get(5) === 1 ? -gps.get(6) : gps.get(6);
+        }
+    }
+};
+
+// copy the attributes and simple elements of the wanted namespaces
+const readXmp = (xmp: string, record: Record<string, any>) => {
+    const namespaces = xmpNamespaces.join('|');
+    const patterns = [
+        new RegExp(`\\b(${namespaces}):(\\w+)="([^"]*)"`, 'g'),
+        new RegExp(`<(${namespaces}):(\\w+)>([^<]*)</\\1:\\2>`, 'g')
+    ];
+    patterns.forEach((pattern) => {
+        for (const [, namespace, name, value] of xmp.matchAll(pattern)) {
+            const key = `${namespace}:${name}`;
+            if (!(key in record) && value.trim() !== '') {
+                record[key] = value.trim();
+            }
+        }
+    });
+};
+
+/**
+ * Reads the exif and xmp metadata of a jpeg into a record keyed like imdat photo records, e.g.
+ * `exif:Model`, `exif:GPSLatitude` or `drone-dji:GimbalPitchDegree`. GPS coordinates are signed
+ * decimal degrees.
+ *
+ * @param buffer - The start of the jpeg file.
+ * @returns - The record, or null when the file has no metadata.
+ */
+const parseJpegMetadata = (buffer: ArrayBuffer) => {
+    const view = new DataView(buffer);
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+        return null;
+    }
+
+    const record: Record<string, any> = {};
+    const xmpSegments: string[] = [];
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+        const marker = view.getUint8(offset + 1);
+        // start of scan or end of image, no more metadata
+        if (marker === 0xda || marker === 0xd9) {
+            break;
+        }
+
+        const length = view.getUint16(offset + 2);
+        const start = offset + 4;
+        const end = Math.min(offset + 2 + length, view.byteLength);
+
+        // the shortest exif segment holds its signature and a tiff header, 14 bytes
+        if (marker === 0xe1 && end - start >= 14) {
+            const bytes = new Uint8Array(buffer, start, end - start);
+            const signature = new TextDecoder('latin1').decode(bytes.subarray(0, xmpSignature.length));
+            if (signature.startsWith('Exif\0\0')) {
+                readTiff(new DataView(buffer, start + 6, end - start - 6), 0, record);
+            } else if (signature === xmpSignature) {
+                xmpSegments.push(new TextDecoder().decode(bytes.subarray(xmpSignature.length)));
+            }
+        }
+
+        offset += 2 + length;
+    }
+
+    // binary exif wins over the same values repeated in xmp
+    xmpSegments.forEach(xmp => readXmp(xmp, record));
+
+    return Object.keys(record).length > 0 ? record : null;
+};
+
+// read the first bytes of a url without downloading the whole photo
+const fetchHeader = async (url: string) => {
+    const response = await fetch(url, { headers: { Range: `bytes=0-${headerBytes - 1}` } });
+    if (!response.ok || !response.body) {
+        return null;
+    }
+
+    // servers ignoring the range send the whole file, stop reading once there is enough
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const read = async (): Promise<void> => {
+        const { done, value } = await reader.read();
+        if (!done) {
+            chunks.push(value);
+            length += value.length;
+            return length < headerBytes ? read() : undefined;
+        }
+    };
+    await read();
+    reader.cancel().catch(() => {});
+
+    const bytes = new Uint8Array(length);
+    let at = 0;
+    chunks.forEach((chunk) => {
+        bytes.set(chunk, at);
+        at += chunk.length;
+    });
+    return bytes.buffer;
+};
+
+/**
+ * Reads the metadata of a photo from its jpeg headers. A copy already in the image cache is read
+ * first, then the start of each url is fetched in turn until one has metadata.
+ *
+ * @param urls - The photo urls, the one most likely to keep the camera's metadata first.
+ * @param imageCache - The image cache.
+ * @returns - The record, or null when none of the photos has metadata.
+ */
+const readJpegMetadata = async (urls: string[], imageCache: ImageCache) => {
+    const cached = imageCache.get(urls);
+    if (cached) {
+        const record = parseJpegMetadata(await cached.blob.slice(0, headerBytes).arrayBuffer());
+        if (record) {
+            return record;
+        }
+    }
+
+    const next = async (i: number): Promise<Record<string, any> | null> => {
+        if (i >= urls.length) {
+            return null;
+        }
+        const buffer = await fetchHeader(urls[i]).catch((): ArrayBuffer | null => null);
+        return (buffer && parseJpegMetadata(buffer)) ?? next(i + 1);
+    };
+    return next(0);
+};
+
+export { parseJpegMetadata, readJpegMetadata };
@@ -0,0 +1,260 @@
+import type { CameraManager } from './camera-manager';
+import { getElementsById } from './dom';
+import { setFrameImageSrc } from './frame-paths';
+import type { Global } from './types';
+
+// item pitch in pixels including the gap, must match the #filmstrip scss
+const itemWidth = 92;
+
+// items rendered beyond each edge of the viewport
+const overscan = 4;
+
+// vertical space the open filmstrip takes from the bottom panels
+const filmstripOffset = '92px';
+
+/**
+ * Horizontally scrolling strip of frame thumbnails. Only the items in view are in the DOM, so it
+ * scales to flights with many thousands of frames. Frames excluded by the frame filter are left
+ * out of the strip.
+ */
+class Filmstrip {
+    constructor(global: Global, cameraManager: CameraManager) {
+        const { events, flights, framePaths, state } = global;
+        const frames = cameraManager.transformFrames;
+
+        // flight colours tag the items when there is more than one flight
+        const flightColors = flights.length > 1 ? flights.map(flight => flight.color.toString(false)) : null;
+
+        const dom = getElementsById(['filmstrip', 'filmstripTrack']);
+
+        if (frames.length === 0) {
+            return;
+        }
+
+        // frame index of each slot in the strip
+        let slots = cameraManager.activeFrames;
+
+        let selectedIndex = -1;
+        let nearestIndex = -1;
+
+        // visible items by slot and a pool of detached items for reuse
+        const items = new Map<number, HTMLElement>();
+        const pool: HTMLElement[] = [];
+
+        const createItem = () => {
+            const item = document.createElement('div');
+            item.classList.add('filmstripItem');
+
+            const img = document.createElement('img');
+            img.decoding = 'async';
+            img.draggable = false;
+            img.alt = '';
+            img.addEventListener('error', () => img.classList.add('missing'));
+            img.addEventListener('load', () => img.classList.remove('missing'));
+
+            const label = document.createElement('span');
+
+            item.append(img, label);
+            return item;
+        };
+
+        const updateItemClasses = (item: HTMLElement, slot: number) => {
+            item.classList.toggle('selected', slots[slot] === selectedIndex);
+            item.classList.toggle('nearest', slots[slot] === nearestIndex);
+        };
+
+        // slot of the frame, or of the first frame after it when the frame is filtered out
+        const slotOf = (index: number) => {
+            let lo = 0;
+            let hi = slots.length;
+            while (lo < hi) {
+                const mid = (lo + hi) >> 1;
+                if (slots[mid] < index) {
+                    lo = mid + 1;
+                } else {
+                    hi = mid;
+                }
+            }
+            return Math.min(lo, slots.length - 1);
+        };
+
+        const render = () => {
+            const { scrollLeft, clientWidth } = dom.filmstrip;
+            const first = Math.max(0, Math.floor(scrollLeft / itemWidth) - overscan);
+            const last = Math.min(slots.length - 1, Math.ceil((scrollLeft + clientWidth) / itemWidth) + overscan);
+
+            items.forEach((item, slot) => {
+                if (slot < first || slot > last) {
+                    item.remove();
+                    items.delete(slot);
+                    pool.push(item);
+                }
+            });
+
+            for (let slot = first; slot <= last; slot++) {
+                if (items.has(slot)) {
+                    continue;
+                }
+
+                const index = slots[slot];
+                const item = pool.pop() ?? createItem();
+                const { frame, flight } = frames[index];
+                const filePath = frame.file_path;
+                const img = item.firstElementChild as HTMLImageElement;
+                img.classList.remove('missing');
+                setFrameImageSrc(img, filePath ? framePaths.urls({ filePath, index, colmapImId: frame.colmap_im_id, flight }, 'thumb') : []);
+                const label = item.lastElementChild as HTMLElement;
+                label.textContent = `${index + 1}`;
+                label.style.borderLeftColor = flightColors ? flightColors[frames[index].flight] : '';
+                item.dataset.index = `${index}`;
+                item.style.left = `${slot * itemWidth}px`;
+                item.title = filePath ?? '';
+                updateItemClasses(item, slot);
+
+                dom.filmstripTrack.appendChild(item);
+                items.set(slot, item);
+            }
+        };
+
+        // lay out the strip for the active frames
+        const layout = () => {
+            slots = cameraManager.activeFrames;
+            dom.filmstripTrack.style.width = `${slots.length * itemWidth}px`;
+            items.forEach((item) => {
+                item.remove();
+                pool.push(item);
+            });
+            items.clear();
+        };
+        layout();
+
+        let renderQueued = false;
+        const queueRender = () => {
+            if (!renderQueued) {
+                renderQueued = true;
+                requestAnimationFrame(() => {
+                    renderQueued = false;
+                    render();
+                });
+            }
+        };
+
+        // scroll so the frame's item is in view, centering it when it was off screen
+        const reveal = (index: number) => {
+            const { scrollLeft, clientWidth } = dom.filmstrip;
+            const left = slotOf(index) * itemWidth;
+            if (left < scrollLeft || left + itemWidth > scrollLeft + clientWidth) {
+                dom.filmstrip.scrollLeft = left - (clientWidth - itemWidth) * 0.5;
+            }
+        };
+
+        const refreshClasses = () => {
+            items.forEach(updateItemClasses);
+        };
+
+        const gotoSlot = (slot: number, event: Event) => {
+            if (slots.length > 0) {
+                const index = slots[Math.max(0, Math.min(slots.length - 1, slot))];
+                events.fire('inputEvent', 'gotoTransformFrame', event, { index, retainCameraMode: true });
+            }
+        };
+
+        events.on('transformFrame:selected', (selection) => {
+            selectedIndex = selection?.index ?? -1;
+            refreshClasses();
+            if (state.filmstripVisible && selectedIndex >= 0) {
+                reveal(selectedIndex);
+            }
+        });
+
+        events.on('transformFrame:nearestUpdated', (nearest) => {
+            nearestIndex = nearest?.index ?? -1;
+            refreshClasses();
+        });
+
+        events.on('transformFrames:filtered', () => {
+            layout();
+            if (state.filmstripVisible) {
+                if (selectedIndex >= 0) {
+                    reveal(selectedIndex);
+                }
+                render();
+            }
+        });
+
+        events.on('filmstripVisible:changed', (value: boolean) => {
+            dom.filmstrip.classList.toggle('hidden', !value);
+            document.documentElement.style.setProperty('--filmstrip-offset', value ? filmstripOffset : '0px');
+            if (value) {
+                if (selectedIndex >= 0) {
+                    reveal(selectedIndex);
+                }
+                render();
+            }
+        });
+
+        dom.filmstrip.addEventListener('scroll', queueRender, { passive: true });
+        window.addEventListener('resize', queueRender);
+
+        // translate vertical wheel to horizontal scrolling
+        dom.filmstrip.addEventListener('wheel', (event: WheelEvent) => {
+            if (Math.abs(event.deltaY) > Math.abs(event.deltaX)) {
+                dom.filmstrip.scrollLeft += event.deltaY;
+                event.preventDefault();
+            }
+            event.stopPropagation();
+        }, { passive: false });
+
+        dom.filmstrip.addEventListener('pointerdown', (event) => {
+            event.stopPropagation();
+        });
+
+        dom.filmstripTrack.addEventListener('click', (event) => {
+            const item = (event.target as HTMLElement).closest('.filmstripItem') as HTMLElement;
+            if (item) {
+                dom.filmstrip.focus({ preventScroll: true });
+                events.fire('inputEvent', 'gotoTransformFrame', event, { index: Number(item.dataset.index), retainCameraMode: true });
+            }
+        });
+
+        // keyboard scrubbing while the strip has focus
+        dom.filmstrip.addEventListener('keydown', (event: KeyboardEvent) => {
+            const current = selectedIndex >= 0 ? slotOf(selectedIndex) : Math.floor(dom.filmstrip.scrollLeft / itemWidth);
+            const page = Math.max(1, Math.floor(dom.filmstrip.clientWidth / itemWidth));
+            const step = event.shiftKey ? 10 : 1;
+
+            let slot: number | null = null;
+            switch (event.key) {
+                case 'ArrowLeft':
+                    slot = current - step;
+                    break;
+                case 'ArrowRight':
+                    slot = current + step;
+                    break;
+                case 'PageUp':
+                    slot = current - page;
+                    break;
+                case 'PageDown':
+                    slot = current + page;
+                    break;
+                case 'Home':
+                    slot = 0;
+                    break;
+                case 'End':
+                    slot = slots.length - 1;
+                    break;
+                case 'Escape':
+                    dom.filmstrip.blur();
+                    return;
+            }
+
+            if (slot !== null) {
+                event.preventDefault();
+                event.stopPropagation();
+                gotoSlot(slot, event);
+            }
+        });
+    }
+}
+
+export { Filmstrip };
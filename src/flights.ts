@@ -0,0 +1,60 @@
+import { Color } from 'playcanvas';
+
+// one capture mission with its own transforms, intrinsics and photo metadata
+type Flight = {
+    name: string;
+    color: Color;
+    transforms: any;                            // transforms.json style object holding the flight's frames
+    imdat: any;                                 // the flight's imdat, or null
+};
+
+// display colours of flights without their own, the first matches the single flight frustums
+const palette = ['#4cbfff', '#ffc14c', '#7ddc6a', '#f26db0', '#b18cff', '#4cf2d9', '#ff8a4c', '#d9e65c'];
+
+// accepts '#rrggbb' or [r, g, b] with components 0..1
+const parseColor = (value: any, fallback: string) => {
+    if (Array.isArray(value) && value.length >= 3 && value.every(v => typeof v === 'number')) {
+        return new Color(value[0], value[1], value[2]);
+    }
+    return new Color().fromString(typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : fallback);
+};
+
+const flightName = (transforms: any, imdat: any, index: number) => {
+    return transforms?.name ?? imdat?.header?.common?.['dc:identifier'] ?? `Flight ${index + 1}`;
+};
+
+/**
+ * Splits the loaded transforms into flights. Transforms may be a single transforms.json object,
+ * a list of them, or one object with a `flights` list whose entries inherit the top level
+ * intrinsics. Flights may carry `name`, `color` and an inline `imdat`, otherwise the imdat list
+ * is matched to the flights by position and a single imdat is shared by all of them.
+ *
+ * @param transforms - The loaded transforms json.
+ * @param imdat - The loaded imdat json, or a list of them.
+ * @returns - The flights, in order.
+ */
+const normalizeFlights = (transforms: any, imdat: any): Flight[] => {
+    let sets: any[];
+    if (Array.isArray(transforms)) {
+        sets = transforms;
+    } else if (Array.isArray(transforms?.flights)) {
+        const { flights, ...shared } = transforms;
+        sets = flights.map((flight: any) => ({ ...shared, frames: [], ...flight }));
+    } else {
+        sets = [transforms ?? { frames: [] }];
+    }
+
+    return sets.map((set, index) => {
+        const flightImdat = set?.imdat ?? (Array.isArray(imdat) ? imdat[index] : imdat) ?? null;
+        return {
+            name: flightName(set, flightImdat, index),
+            color: parseColor(set?.color, palette[index % palette.length]),
+            transforms: set,
+            imdat: flightImdat
+        };
+    });
+};
+
+export type { Flight };
+
+export { normalizeFlights };
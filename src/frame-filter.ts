@@ -0,0 +1,331 @@
+import type { CameraManager, PreparedTransformFrame } from './camera-manager';
+import { getElementsById } from './dom';
+import type { Flight } from './flights';
+import { findPhotoRecord, formatLocalTime, getPhotoRecords, normalizeRecord, parseCaptureTime, toNumber } from './frame-metadata';
+import type { Global } from './types';
+
+// the photo properties frames can be filtered by, null when the record lacks them
+type PhotoAttributes = {
+    flight: number;                             // index into global.flights
+    pitch: number | null;                       // gimbal pitch in degrees, -90 is nadir
+    altitude: number | null;                    // metres, relative to take-off when recorded
+    time: number | null;                        // capture time in ms since the epoch
+    camera: string | null;                      // camera model, with the lens model when recorded
+};
+
+// inclusive bounds, null for an open end
+type Range = {
+    min: number | null;
+    max: number | null;
+};
+
+// restricts the transform frames taking part in navigation
+type FrameFilter = {
+    pitch: Range | null;
+    altitude: Range | null;
+    time: Range | null;
+    camera: string[];
+    flights: number[];                          // flight indices, empty for all flights
+};
+
+// record keys holding each attribute, compared without namespace and case, in order of preference
+const pitchKeys = ['gimbalpitchdegree', 'gimbalpitch', 'camerapitch', 'pitch'];
+const altitudeKeys = ['relativealtitude', 'absolutealtitude', 'gpsaltitude', 'altitude', 'alt'];
+const timeKeys = ['datetimeoriginal', 'capturetime', 'createdate', 'datetime', 'timestamp'];
+const cameraKeys = ['model', 'cameramodel', 'camera'];
+const lensKeys = ['lensmodel', 'lens'];
+
+// pitch ranges of the panel presets
+const nadirPitch: Range = { min: -90, max: -70 };
+const obliquePitch: Range = { min: -70, max: -10 };
+
+const emptyFilter = (): FrameFilter => ({ pitch: null, altitude: null, time: null, camera: [], flights: [] });
+
+const pick = (record: Map<string, any>, keys: string[]) => {
+    for (const key of keys) {
+        const value = record.get(key);
+        if (value !== undefined && value !== null && value !== '') {
+            return value;
+        }
+    }
+    return null;
+};
+
+// local time in the form used by datetime-local inputs and the url
+const formatTime = (time: number) => formatLocalTime(time, true);
+
+/**
+ * Reads the filterable attributes of each frame from its flight's imdat photo record.
+ *
+ * @param frames - The prepared transform frames.
+ * @param flights - The flights.
+ * @returns - The attributes, by frame index.
+ */
+const readFrameAttributes = (frames: PreparedTransformFrame[], flights: Flight[]): PhotoAttributes[] => {
+    const photos = flights.map(flight => getPhotoRecords(flight.imdat));
+    return frames.map(({ frame, flight }) => {
+        const record = findPhotoRecord(photos[flight], frame.file_path, frame.colmap_im_id);
+        if (!record) {
+            return { flight, pitch: null, altitude: null, time: null, camera: null };
+        }
+
+        const normalized = normalizeRecord(record);
+        const model = pick(normalized, cameraKeys);
+        const lens = pick(normalized, lensKeys);
+        return {
+            flight,
+            pitch: toNumber(pick(normalized, pitchKeys)),
+            altitude: toNumber(pick(normalized, altitudeKeys)),
+            time: parseCaptureTime(pick(normalized, timeKeys)),
+            camera: model ? [model, lens].filter(Boolean).join(' · ') : null
+        };
+    });
+};
+
+/**
+ * Parses a frame filter from its url form, for example
+ * `pitch:-70..-10;alt:40..;time:2024-05-01T10:00..2024-05-01T11:30;camera:FC6310,M3E;flight:2`.
+ * Ranges are inclusive and either end may be left open, flights are numbered from one. Unknown
+ * or malformed terms are ignored.
+ *
+ * @param text - The filter text.
+ * @returns - The filter.
+ */
+const parseFrameFilter = (text: string): FrameFilter => {
+    const filter = emptyFilter();
+
+    const parseRange = (value: string, parse: (v: string) => number | null): Range | null => {
+        const [min, max] = value.split('..');
+        if (max === undefined) {
+            return null;
+        }
+        const range = { min: min ? parse(min) : null, max: max ? parse(max) : null };
+        return range.min === null && range.max === null ? null : range;
+    };
+
+    (text ?? '').split(';').forEach((term) => {
+        const separator = term.indexOf(':');
+        const name = term.slice(0, separator).trim().toLowerCase();
+        const value = term.slice(separator + 1).trim();
+        switch (name) {
+            case 'pitch':
+                filter.pitch = parseRange(value, toNumber);
+                break;
+            case 'alt':
+                filter.altitude = parseRange(value, toNumber);
+                break;
+            case 'time':
+                filter.time = parseRange(value, parseCaptureTime);
+                break;
+            case 'camera':
+                filter.camera = value.split(',').map(v => v.trim()).filter(Boolean);
+                break;
+            case 'flight':
+                filter.flights = value.split(',').map(v => parseInt(v, 10) - 1).filter(v => v >= 0);
+                break;
+        }
+    });
+
+    return filter;
+};
+
+/**
+ * Formats a frame filter in its url form, the inverse of parseFrameFilter.
+ *
+ * @param filter - The filter.
+ * @returns - The filter text, empty when nothing is filtered.
+ */
+const formatFrameFilter = (filter: FrameFilter) => {
+    const formatRange = (range: Range | null, format: (v: number) => string) => {
+        return range ? `${range.min === null ? '' : format(range.min)}..${range.max === null ? '' : format(range.max)}` : null;
+    };
+
+    return [
+        ['pitch', formatRange(filter.pitch, v => `${v}`)],
+        ['alt', formatRange(filter.altitude, v => `${v}`)],
+        ['time', formatRange(filter.time, formatTime)],
+        ['camera', filter.camera.length > 0 ? filter.camera.join(',') : null],
+        ['flight', filter.flights.length > 0 ? filter.flights.map(v => v + 1).join(',') : null]
+    ]
+    .filter(([, value]) => value !== null)
+    .map(([name, value]) => `${name}:${value}`)
+    .join(';');
+};
+
+/**
+ * Returns the indices of the frames passing a filter. Frames without a value for a filtered
+ * attribute are excluded.
+ *
+ * @param attributes - The frame attributes.
+ * @param filter - The filter.
+ * @returns - The frame indices, in capture order.
+ */
+const matchFrames = (attributes: PhotoAttributes[], filter: FrameFilter) => {
+    const inRange = (value: number | null, range: Range | null) => {
+        if (!range) {
+            return true;
+        }
+        return value !== null && (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+    };
+
+    const result: number[] = [];
+    attributes.forEach((attrs, index) => {
+        if (inRange(attrs.pitch, filter.pitch) &&
+            inRange(attrs.altitude, filter.altitude) &&
+            inRange(attrs.time, filter.time) &&
+            (filter.camera.length === 0 || filter.camera.includes(attrs.camera)) &&
+            (filter.flights.length === 0 || filter.flights.includes(attrs.flight))) {
+            result.push(index);
+        }
+    });
+    return result;
+};
+
+/**
+ * HUD panel editing the frame filter. The filter is kept in the url's `filter` parameter so a
+ * filtered view can be shared.
+ */
+class FrameFilterPanel {
+    constructor(global: Global, cameraManager: CameraManager) {
+        const { events, flights, state } = global;
+        const attributes = cameraManager.frameAttributes;
+
+        const dom = getElementsById([
+            'frameFilterPanel', 'frameFilterClose', 'frameFilterNadir', 'frameFilterOblique', 'frameFilterClear',
+            'frameFilterPitchMin', 'frameFilterPitchMax', 'frameFilterAltMin', 'frameFilterAltMax',
+            'frameFilterTimeMin', 'frameFilterTimeMax', 'frameFilterCameras', 'frameFilterFlights', 'frameFilterCount'
+        ]);
+
+        if (attributes.length === 0) {
+            return;
+        }
+
+        const input = (id: string) => dom[id] as HTMLInputElement;
+
+        // show the range of the data as placeholders
+        const showExtent = (values: number[], minId: string, maxId: string, format: (v: number) => string) => {
+            if (values.length > 0) {
+                input(minId).placeholder = format(values.reduce((a, b) => Math.min(a, b)));
+                input(maxId).placeholder = format(values.reduce((a, b) => Math.max(a, b)));
+            }
+        };
+        const present = (key: 'pitch' | 'altitude' | 'time') => attributes.map(a => a[key]).filter(v => v !== null);
+        showExtent(present('pitch'), 'frameFilterPitchMin', 'frameFilterPitchMax', v => `${Math.round(v)}`);
+        showExtent(present('altitude'), 'frameFilterAltMin', 'frameFilterAltMax', v => `${Math.round(v)}`);
+        showExtent(present('time'), 'frameFilterTimeMin', 'frameFilterTimeMax', formatTime);
+
+        // a checkbox per camera
+        const cameras = [...new Set(attributes.map(a => a.camera).filter(Boolean))].sort();
+        const cameraInputs = cameras.map((camera) => {
+            const label = document.createElement('label');
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.value = camera;
+            label.append(checkbox, camera);
+            dom.frameFilterCameras.appendChild(label);
+            return checkbox;
+        });
+        dom.frameFilterCameras.classList.toggle('hidden', cameras.length < 2);
+
+        // a checkbox per flight, marked with the flight's colour
+        const flightInputs = flights.map((flight, index) => {
+            const label = document.createElement('label');
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.value = `${index}`;
+            const swatch = document.createElement('span');
+            swatch.classList.add('flightSwatch');
+            swatch.style.background = flight.color.toString(false);
+            label.append(checkbox, swatch, flight.name);
+            dom.frameFilterFlights.appendChild(label);
+            return checkbox;
+        });
+        dom.frameFilterFlights.classList.toggle('hidden', flights.length < 2);
+
+        const readRange = (minId: string, maxId: string, parse: (v: string) => number | null): Range | null => {
+            const min = input(minId).value ? parse(input(minId).value) : null;
+            const max = input(maxId).value ? parse(input(maxId).value) : null;
+            return min === null && max === null ? null : { min, max };
+        };
+
+        const writeRange = (range: Range | null, minId: string, maxId: string, format: (v: number) => string) => {
+            input(minId).value = range && range.min !== null ? format(range.min) : '';
+            input(maxId).value = range && range.max !== null ? format(range.max) : '';
+        };
+
+        // reflect a filter in the inputs
+        const showFilter = (filter: FrameFilter) => {
+            writeRange(filter.pitch, 'frameFilterPitchMin', 'frameFilterPitchMax', v => `${v}`);
+            writeRange(filter.altitude, 'frameFilterAltMin', 'frameFilterAltMax', v => `${v}`);
+            writeRange(filter.time, 'frameFilterTimeMin', 'frameFilterTimeMax', formatTime);
+            cameraInputs.forEach((checkbox) => {
+                checkbox.checked = filter.camera.includes(checkbox.value);
+            });
+            flightInputs.forEach((checkbox, index) => {
+                checkbox.checked = filter.flights.includes(index);
+            });
+        };
+
+        const readFilter = (): FrameFilter => ({
+            pitch: readRange('frameFilterPitchMin', 'frameFilterPitchMax', toNumber),
+            altitude: readRange('frameFilterAltMin', 'frameFilterAltMax', toNumber),
+            time: readRange('frameFilterTimeMin', 'frameFilterTimeMax', parseCaptureTime),
+            camera: cameraInputs.filter(checkbox => checkbox.checked).map(checkbox => checkbox.value),
+            flights: flightInputs.filter(checkbox => checkbox.checked).map(checkbox => Number(checkbox.value))
+        });
+
+        const apply = (filter: FrameFilter) => {
+            state.frameFilter = formatFrameFilter(filter);
+        };
+
+        const updateCount = () => {
+            const active = cameraManager.activeFrames.length;
+            dom.frameFilterCount.textContent = active === attributes.length ?
+                `All ${attributes.length} frames` :
+                `${active} of ${attributes.length} frames`;
+        };
+
+        showFilter(parseFrameFilter(state.frameFilter));
+        updateCount();
+
+        dom.frameFilterPanel.addEventListener('change', () => apply(readFilter()));
+
+        dom.frameFilterNadir.addEventListener('click', () => apply({ ...readFilter(), pitch: nadirPitch }));
+        dom.frameFilterOblique.addEventListener('click', () => apply({ ...readFilter(), pitch: obliquePitch }));
+        dom.frameFilterClear.addEventListener('click', () => apply(emptyFilter()));
+
+        dom.frameFilterClose.addEventListener('click', () => {
+            state.frameFilterVisible = false;
+        });
+
+        dom.frameFilterPanel.addEventListener('pointerdown', event => event.stopPropagation());
+
+        // keep typing in the inputs from reaching the camera controls
+        dom.frameFilterPanel.addEventListener('keydown', event => event.stopPropagation());
+
+        events.on('frameFilterVisible:changed', (value: boolean) => {
+            dom.frameFilterPanel.classList.toggle('hidden', !value);
+        });
+
+        events.on('frameFilter:changed', (value: string) => {
+            const filter = parseFrameFilter(value);
+            showFilter(filter);
+
+            // keep the url shareable
+            const url = new URL(window.location.href);
+            const text = formatFrameFilter(filter);
+            if (text) {
+                url.searchParams.set('filter', text);
+            } else {
+                url.searchParams.delete('filter');
+            }
+            window.history.replaceState(window.history.state, '', url);
+        });
+
+        events.on('transformFrames:filtered', updateCount);
+    }
+}
+
+export type { FrameFilter, PhotoAttributes };
+
+export { FrameFilterPanel, formatFrameFilter, matchFrames, parseFrameFilter, readFrameAttributes };
@@ -0,0 +1,221 @@
+import { Vec3 } from 'playcanvas';
+
+import { KdTree, type KdResult } from './core/kd-tree';
+import type { FrameMatching } from './settings';
+
+// the parts of a transform frame the index needs
+type IndexedFrame = {
+    position: Vec3;
+    forward: Vec3;
+    fov: number;
+};
+
+// frames whose forward vectors fall in the same cell of a cube map, with a k-d tree on position
+type DirectionBucket = {
+    tree: KdTree;
+    center: Vec3;                               // mean forward
+    radius: number;                             // largest angle in radians from the mean forward
+    minFov: number;
+    maxFov: number;
+};
+
+// default weights of the nearest frame score
+const defaultFrameMatching: FrameMatching = {
+    position: 0.4,
+    direction: 0.5,
+    fov: 0.1,
+    behind: 0.5
+};
+
+// cells along each edge of a cube map face
+const bucketResolution = 4;
+
+const angleBetween = (a: Vec3, b: Vec3) => Math.acos(Math.max(-1, Math.min(1, a.dot(b))));
+
+const tmpCenter = new Vec3();
+const tmpDir = new Vec3();
+
+// cube map face and cell of a direction
+const bucketKey = (dir: Vec3) => {
+    const ax = Math.abs(dir.x);
+    const ay = Math.abs(dir.y);
+    const az = Math.abs(dir.z);
+
+    let face: number;
+    let s: number;
+    let t: number;
+    if (ax >= ay && ax >= az) {
+        face = dir.x > 0 ? 0 : 1;
+        s = dir.y / ax;
+        t = dir.z / ax;
+    } else if (ay >= az) {
+        face = dir.y > 0 ? 2 : 3;
+        s = dir.x / ay;
+        t = dir.z / ay;
+    } else {
+        face = dir.z > 0 ? 4 : 5;
+        s = dir.x / az;
+        t = dir.y / az;
+    }
+
+    const cell = (v: number) => Math.min(bucketResolution - 1, Math.floor((v + 1) * 0.5 * bucketResolution));
+    return (face * bucketResolution + cell(s)) * bucketResolution + cell(t);
+};
+
+// distance from a point to an axis aligned box
+const boxDistance = (point: Vec3, min: Vec3, max: Vec3) => {
+    return Math.hypot(
+        Math.max(min.x - point.x, 0, point.x - max.x),
+        Math.max(min.y - point.y, 0, point.y - max.y),
+        Math.max(min.z - point.z, 0, point.z - max.z)
+    );
+};
+
+/**
+ * Spatial index over the transform frames for large captures. Frames are grouped by view
+ * direction and each group holds a k-d tree on position, so queries skip groups facing away and
+ * branches far from the camera without visiting every frame.
+ */
+class FrameIndex {
+    private frames: IndexedFrame[];
+
+    private buckets: DirectionBucket[] = [];
+
+    /**
+     * @param frames - The frames.
+     * @param indices - The frames to index, defaults to all.
+     */
+    constructor(frames: IndexedFrame[], indices: number[] = frames.map((_, i) => i)) {
+        this.frames = frames;
+
+        const groups = new Map<number, number[]>();
+        indices.forEach((index) => {
+            const key = bucketKey(frames[index].forward);
+            if (!groups.has(key)) {
+                groups.set(key, []);
+            }
+            groups.get(key).push(index);
+        });
+
+        groups.forEach((items) => {
+            const center = new Vec3();
+            items.forEach(index => center.add(frames[index].forward));
+            center.normalize();
+
+            // large captures can hold more frames per bucket than spread arguments allow
+            this.buckets.push({
+                tree: new KdTree(items.map(index => frames[index].position), items),
+                center,
+                radius: items.reduce((acc, index) => Math.max(acc, angleBetween(center, frames[index].forward)), 0),
+                minFov: items.reduce((acc, index) => Math.min(acc, frames[index].fov), Infinity),
+                maxFov: items.reduce((acc, index) => Math.max(acc, frames[index].fov), -Infinity)
+            });
+        });
+    }
+
+    /**
+     * Finds the frames best matching a view. The score adds the weighted distance relative to the
+     * scene size, the angle between the view directions, the fov difference and a penalty for
+     * frames facing away from the view.
+     *
+     * @param position - The view position.
+     * @param forward - The normalized view direction.
+     * @param fov - The view fov in degrees.
+     * @param k - Number of frames to return.
+     * @param sceneScale - Distance that counts as one full unit of the position weight.
+     * @param weights - The score weights.
+     * @returns - Frame indices and scores, best first.
+     */
+    nearest(position: Vec3, forward: Vec3, fov: number, k: number, sceneScale: number, weights: FrameMatching = defaultFrameMatching) {
+        const { frames } = this;
+
+        const score = (index: number) => {
+            const frame = frames[index];
+            const dot = Math.max(-1, Math.min(1, forward.dot(frame.forward)));
+            return position.distance(frame.position) / sceneScale * weights.position +
+                Math.acos(dot) / Math.PI * weights.direction +
+                Math.min(1, Math.abs(fov - frame.fov) / 90) * weights.fov +
+                (dot < 0 ? weights.behind : 0);
+        };
+
+        // lower bound of the direction and fov terms over each bucket, most promising first
+        const candidates = this.buckets.map((bucket) => {
+            const angle = Math.max(0, angleBetween(forward, bucket.center) - bucket.radius);
+            const fovGap = Math.max(0, bucket.minFov - fov, fov - bucket.maxFov);
+            return {
+                bucket,
+                bound: angle / Math.PI * weights.direction +
+                    Math.min(1, fovGap / 90) * weights.fov +
+                    (angle > Math.PI / 2 ? weights.behind : 0)
+            };
+        }).sort((a, b) => a.bound - b.bound);
+
+        const results: KdResult[] = [];
+        for (const { bucket, bound } of candidates) {
+            if (results.length >= k && bound >= results[results.length - 1].score) {
+                break;
+            }
+
+            bucket.tree.search(
+                k,
+                (min, max) => bound + boxDistance(position, min, max) / sceneScale * weights.position,
+                score,
+                results
+            );
+        }
+
+        return results.map(r => ({ index: r.item, score: r.score }));
+    }
+
+    /**
+     * Finds the frames whose view cone reaches into what a view sees up to a distance, for
+     * example to gather the photos covering what the camera sees. A point is a view with no fov
+     * and no range, so this also finds the frames that may see a point.
+     *
+     * @param position - The view position.
+     * @param forward - The normalized view direction.
+     * @param fov - The view fov in degrees.
+     * @param range - How far the view sees.
+     * @returns - Frame indices in capture order.
+     */
+    overlapping(position: Vec3, forward: Vec3, fov: number, range: number) {
+        const { frames } = this;
+
+        // bounding sphere of the cone the view sees, capped at the range
+        const cosHalfFov = Math.cos(Math.min(180, fov) * Math.PI / 360);
+        const center = cosHalfFov > 0 ? new Vec3().copy(forward).mulScalar(range * 0.5).add(position) : position.clone();
+        const radius = cosHalfFov > 0 ? range * Math.sqrt(Math.max(0.25, 1.25 - cosHalfFov)) : range;
+
+        const result: number[] = [];
+        this.buckets.forEach((bucket) => {
+            const maxHalfFov = bucket.maxFov * Math.PI / 360;
+
+            // from anywhere in a box, the sphere lies within the angle from the box centre widened by
+            // the box and sphere sizes, and the bucket's frames look within its radius of its centre
+            const accept = (min: Vec3, max: Vec3) => {
+                const extent = min.distance(max) * 0.5;
+                const distance = tmpDir.sub2(center, tmpCenter.add2(min, max).mulScalar(0.5)).length();
+                if (distance <= extent + radius) {
+                    return true;
+                }
+                const spread = Math.asin(extent / distance) + Math.asin(radius / (distance - extent));
+                return angleBetween(bucket.center, tmpDir.mulScalar(1 / distance)) <= bucket.radius + maxHalfFov + spread;
+            };
+
+            const test = (index: number) => {
+                const frame = frames[index];
+                const distance = tmpDir.sub2(center, frame.position).length();
+                return distance <= radius ||
+                    angleBetween(frame.forward, tmpDir.mulScalar(1 / distance)) <= frame.fov * Math.PI / 360 + Math.asin(radius / distance);
+            };
+
+            bucket.tree.collect(accept, test, result);
+        });
+
+        return result.sort((a, b) => a - b);
+    }
+}
+
+export type { IndexedFrame };
+
+export { FrameIndex, defaultFrameMatching };
@@ -0,0 +1,53 @@
+import { frameAspect, type PreparedTransformFrame } from './camera-manager';
+import { type FramePaths, setFrameImageSrc } from './frame-paths';
+
+/**
+ * Creates the list item of a transform frame, its thumbnail next to its number, file name and
+ * details, as listed by the frame search and the frames seeing a point.
+ *
+ * @param frames - The prepared transform frames.
+ * @param index - The index of the frame to list.
+ * @param framePaths - The frame image paths.
+ * @param details - Details shown on one line below the file name.
+ * @param selected - Whether the frame is the selected one.
+ * @param overlay - An element drawn over the thumbnail.
+ * @returns - The item, a button with the frame index in `data-index`.
+ */
+const createFrameListItem = (frames: PreparedTransformFrame[], index: number, framePaths: FramePaths, details: string[], selected: boolean, overlay?: HTMLElement) => {
+    const { frame, flight } = frames[index];
+    const filePath = frame.file_path ?? '';
+
+    const item = document.createElement('button');
+    item.type = 'button';
+    item.classList.add('frameListItem');
+    item.classList.toggle('selected', selected);
+    item.dataset.index = `${index}`;
+    item.title = filePath;
+
+    const thumb = document.createElement('div');
+    thumb.classList.add('frameListThumb');
+    thumb.style.aspectRatio = `${frameAspect(frames[index])}`;
+
+    const img = document.createElement('img');
+    img.loading = 'lazy';
+    img.decoding = 'async';
+    img.alt = '';
+    img.addEventListener('error', () => img.classList.add('missing'));
+    if (filePath) {
+        setFrameImageSrc(img, framePaths.urls({ filePath, index, colmapImId: frame.colmap_im_id, flight }, 'thumb'));
+    }
+    thumb.appendChild(img);
+    if (overlay) {
+        thumb.appendChild(overlay);
+    }
+
+    const text = document.createElement('div');
+    text.classList.add('frameListText');
+    const name = filePath.split('/').pop() || `Frame ${index + 1}`;
+    text.textContent = details.length > 0 ? `#${index + 1} ${name}\n${details.join(' · ')}` : `#${index + 1} ${name}`;
+
+    item.append(thumb, text);
+    return item;
+};
+
+export { createFrameListItem };
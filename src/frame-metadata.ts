@@ -0,0 +1,116 @@
+// per-photo metadata records keyed by file name
+type PhotoRecords = Record<string, Record<string, any>>;
+
+/**
+ * Returns the per-photo records of an imdat document, or null when it has none.
+ *
+ * @param imdat - The parsed imdat json.
+ * @returns - The photo records.
+ */
+const getPhotoRecords = (imdat: any): PhotoRecords | null => {
+    return (imdat && typeof imdat === 'object' && typeof imdat.photos === 'object') ? imdat.photos as PhotoRecords : null;
+};
+
+/**
+ * Finds the metadata record of a transform frame. Records may be keyed by the relative path, the
+ * file name, the file name with a different image extension or the COLMAP image id.
+ *
+ * @param photos - The photo records.
+ * @param filePath - The frame's file path.
+ * @param colmapImId - The frame's COLMAP image id.
+ * @returns - The record, or null when there is none.
+ */
+const findPhotoRecord = (photos: PhotoRecords | null, filePath: string | null | undefined, colmapImId?: number | null) => {
+    if (!photos || !filePath) {
+        return null;
+    }
+
+    const baseName = filePath.split('/').pop() ?? filePath;
+    const stem = baseName.replace(/\.[^./\\]+$/, '');
+    const candidates = [
+        filePath,
+        filePath.replace(/^\.\//, ''),
+        baseName,
+        `${stem}.png`,
+        `${stem}.jpg`,
+        `${stem}.jpeg`,
+        String(colmapImId ?? '')
+    ].filter(Boolean);
+
+    for (const key of candidates) {
+        const metadata = photos[key];
+        if (metadata && typeof metadata === 'object') {
+            return metadata;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Parses a capture time. Accepts ms since the epoch, ISO dates and the EXIF form
+ * 'YYYY:MM:DD HH:MM:SS', the latter two in local time unless they carry a zone.
+ *
+ * @param value - The recorded time.
+ * @returns - The time in ms since the epoch, or null when it is not a time.
+ */
+const parseCaptureTime = (value: any) => {
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? value : null;
+    }
+    if (typeof value !== 'string') {
+        return null;
+    }
+    const result = Date.parse(value.trim().replace(/^(\d{4}):(\d{2}):(\d{2})\s/, '$1-$2-$3T'));
+    return Number.isFinite(result) ? result : null;
+};
+
+/**
+ * Reads a metadata value as a number, from a number or a string holding only a number.
+ *
+ * @param value - The value.
+ * @returns - The number, or null when the value is not one.
+ */
+const toNumber = (value: any) => {
+    const result = typeof value === 'number' ? value : (typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN);
+    return Number.isFinite(result) ? result : null;
+};
+
+/**
+ * Indexes a photo record by its keys without namespace prefix, lowercased, so `exif:GPSAltitude`
+ * and `drone-dji:GpsAltitude` both read as `gpsaltitude`. The first non-empty value of a key wins.
+ *
+ * @param record - The photo record.
+ * @returns - The values by normalized key.
+ */
+const normalizeRecord = (record: Record<string, any>) => {
+    const result = new Map<string, any>();
+    Object.entries(record).forEach(([key, value]) => {
+        const name = key.split(':').pop().toLowerCase();
+        if (!result.has(name) && value !== null && value !== undefined && value !== '') {
+            result.set(name, value);
+        }
+    });
+    return result;
+};
+
+/**
+ * Formats a capture time in local time as `YYYY-MM-DD HH:MM:SS`, or as `YYYY-MM-DDTHH:MM` for
+ * datetime-local inputs.
+ *
+ * @param time - The time in ms since the epoch.
+ * @param input - Whether to use the datetime-local input form.
+ * @returns - The formatted time.
+ */
+const formatLocalTime = (time: number, input = false) => {
+    const date = new Date(time);
+    const pad = (n: number) => `${n}`.padStart(2, '0');
+    const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    return input ?
+        `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}` :
+        `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+export type { PhotoRecords };
+
+export { findPhotoRecord, formatLocalTime, getPhotoRecords, normalizeRecord, parseCaptureTime, toNumber };
@@ -0,0 +1,141 @@
+import type { ImagePaths } from './settings';
+
+// resolution tiers of the frame photos, smallest first
+type ImageTier = 'thumb' | 'preview' | 'full';
+
+// the frame a photo url is resolved for
+type FrameImageRef = {
+    filePath: string;                           // transforms.json file_path (images/...)
+    index?: number;                             // index of the prepared transform frame
+    colmapImId?: number | null;
+    flight?: number;
+};
+
+const tiers: ImageTier[] = ['thumb', 'preview', 'full'];
+
+// the derived jpgs generated next to the source images
+const defaultImagePaths: Required<ImagePaths> = {
+    thumb: '{root}images_jpg_8/{subdir}{stem}.jpg',
+    preview: '{root}images_jpg_8/{subdir}{stem}.jpg',
+    full: '{root}images_jpg/{subdir}{stem}.jpg'
+};
+
+// split a file path around its images/ directory
+const splitFilePath = (filePath: string) => {
+    const slash = filePath.lastIndexOf('/');
+    const dir = filePath.slice(0, slash + 1);
+    const name = filePath.slice(slash + 1);
+    const dot = name.lastIndexOf('.');
+    const match = /(^|\/)images\//i.exec(dir);
+    return {
+        dir,
+        name,
+        stem: dot > 0 ? name.slice(0, dot) : name,
+        ext: dot > 0 ? name.slice(dot + 1) : '',
+        root: match ? dir.slice(0, match.index + match[1].length) : dir,
+        subdir: match ? dir.slice(match.index + match[0].length) : '',
+        hasImagesDir: !!match
+    };
+};
+
+/**
+ * Resolves the photo urls of transform frames from path templates, one per resolution tier.
+ * Templates may use the placeholders {dir}, {root}, {subdir}, {name}, {stem}, {ext}, {index},
+ * {colmap_id} and {flight}, where {root} is the part of the path before the images/ directory
+ * and {subdir} the part after it. Numeric placeholders take an optional zero padded width, as in
+ * {index:5}. With the default templates, paths without an images/ directory map to the jpg beside
+ * the source image.
+ */
+class FramePaths {
+    templates: Required<ImagePaths>;
+
+    /**
+     * @param templates - Templates overriding the defaults, later ones taking precedence.
+     */
+    constructor(...templates: (ImagePaths | undefined)[]) {
+        this.templates = { ...defaultImagePaths };
+        templates.forEach((paths) => {
+            tiers.forEach((tier) => {
+                if (typeof paths?.[tier] === 'string' && paths[tier]) {
+                    this.templates[tier] = paths[tier];
+                }
+            });
+        });
+    }
+
+    /**
+     * Resolves the url of a frame's photo at one tier.
+     *
+     * @param ref - The frame.
+     * @param tier - The resolution tier.
+     * @returns - The url.
+     */
+    resolve(ref: FrameImageRef, tier: ImageTier) {
+        const { hasImagesDir, ...parts } = splitFilePath(ref.filePath);
+
+        // the default derived photo of a path outside an images/ directory is the jpg beside it
+        if (!hasImagesDir && this.templates[tier] === defaultImagePaths[tier]) {
+            return ref.filePath.replace(/\.[^./\\]+$/, '.jpg');
+        }
+
+        const numbers: Record<string, number | null | undefined> = {
+            index: ref.index,
+            colmap_id: ref.colmapImId,
+            flight: ref.flight
+        };
+
+        return this.templates[tier].replace(/\{(\w+)(?::(\d+))?\}/g, (match, key: string, width?: string) => {
+            if (key in numbers) {
+                const value = numbers[key];
+                return value === null || value === undefined ? '' : `${value}`.padStart(Number(width ?? 0), '0');
+            }
+            return key in parts ? parts[key as keyof typeof parts] : match;
+        });
+    }
+
+    /**
+     * Returns the urls to try for a frame's photo: the requested tier, then the smaller tiers and
+     * finally the larger ones.
+     *
+     * @param ref - The frame.
+     * @param tier - The preferred resolution tier.
+     * @returns - The distinct urls in the order to try them.
+     */
+    urls(ref: FrameImageRef, tier: ImageTier) {
+        const position = tiers.indexOf(tier);
+        const order = [...tiers.slice(0, position + 1).reverse(), ...tiers.slice(position + 1)];
+        return [...new Set(order.map(t => this.resolve(ref, t)))];
+    }
+}
+
+// urls left to try for each image once its current one fails
+const fallbacks = new WeakMap<HTMLImageElement, string[]>();
+
+const onImageError = (event: Event) => {
+    const img = event.target as HTMLImageElement;
+    const next = fallbacks.get(img)?.shift();
+    if (next) {
+        // other error listeners only hear about the last tier failing
+        event.stopImmediatePropagation();
+        img.src = next;
+    }
+};
+
+/**
+ * Loads the first of the urls into an image, moving on to the next one whenever loading fails.
+ *
+ * @param img - The image element.
+ * @param urls - The urls in the order to try them.
+ */
+const setFrameImageSrc = (img: HTMLImageElement, urls: string[]) => {
+    if (!fallbacks.has(img)) {
+        // capture listeners on the target run before the ones added by the caller
+        img.addEventListener('error', onImageError, { capture: true });
+    }
+    fallbacks.set(img, urls.slice(1));
+    img.src = urls[0] ?? '';
+};
+
+export type { FrameImageRef, ImageTier };
+
+export { FramePaths, setFrameImageSrc };
@@ -0,0 +1,70 @@
+import type { CameraManager } from './camera-manager';
+import type { Global } from './types';
+
+// frames either side of the selection, in the filtered capture order
+const neighbours = 2;
+
+// frames best matching the current view
+const nearestCount = 6;
+
+/**
+ * Keeps the image cache warm with the photos the picture in picture is likely to show next: the
+ * frames either side of the selected one and the frames nearest the current view.
+ */
+class FramePrefetch {
+    constructor(global: Global, cameraManager: CameraManager) {
+        const { events, framePaths, imageCache } = global;
+        const frames = cameraManager.transformFrames;
+
+        if (frames.length === 0) {
+            return;
+        }
+
+        let selectedIndex = -1;
+
+        const urlsOf = (index: number) => {
+            const { frame, flight } = frames[index];
+            if (!frame.file_path) {
+                return [];
+            }
+            const ref = { filePath: frame.file_path, index, colmapImId: frame.colmap_im_id, flight };
+            return [framePaths.urls(ref, 'preview'), framePaths.urls(ref, 'thumb')];
+        };
+
+        const update = () => {
+            const active = cameraManager.activeFrames;
+            const indices: number[] = [];
+
+            const position = active.indexOf(selectedIndex);
+            if (position >= 0) {
+                // next before previous, stepping forward is the common case
+                for (let i = 1; i <= neighbours; i++) {
+                    indices.push(active[(position + i) % active.length]);
+                    indices.push(active[(position - i + active.length) % active.length]);
+                }
+            }
+            indices.push(...cameraManager.nearestFrames(nearestCount));
+
+            // distinct photos, in order of want
+            const seen = new Set<string>();
+            const list = [...new Set(indices)].flatMap(urlsOf).filter((urls) => {
+                if (urls.length === 0 || seen.has(urls[0])) {
+                    return false;
+                }
+                seen.add(urls[0]);
+                return true;
+            });
+            imageCache.prefetch(list);
+        };
+
+        events.on('transformFrame:selected', (selection) => {
+            selectedIndex = selection?.index ?? -1;
+            update();
+        });
+
+        events.on('transformFrame:nearestUpdated', update);
+        events.on('transformFrames:filtered', update);
+    }
+}
+
+export { FramePrefetch };
@@ -0,0 +1,272 @@
+import type { CameraManager, PreparedTransformFrame } from './camera-manager';
+import { getElementsById } from './dom';
+import type { Flight } from './flights';
+import type { PhotoAttributes } from './frame-filter';
+import { createFrameListItem } from './frame-list';
+import { findPhotoRecord, formatLocalTime, getPhotoRecords, normalizeRecord, toNumber } from './frame-metadata';
+import type { Global } from './types';
+
+type SearchOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+// a free text term when field is null
+type SearchTerm = {
+    field: string | null;
+    operator: SearchOperator;
+    value: string;
+};
+
+// the searchable text and fields of a frame
+type SearchEntry = {
+    index: number;
+    attributes: PhotoAttributes;
+    fields: Map<string, any>;                   // record values by key without namespace, lowercased
+    text: string;                               // file path and all values, lowercased
+};
+
+// results listed at most, the count shows the total
+const maxResults = 100;
+
+// fields answered from the frame attributes, so they read the same keys as the frame filter
+const attributeFields: Record<string, keyof PhotoAttributes> = {
+    pitch: 'pitch',
+    altitude: 'altitude',
+    alt: 'altitude',
+    time: 'time',
+    camera: 'camera',
+    flight: 'flight'
+};
+
+const termPattern = /^([a-z_][\w.-]*)(>=|<=|!=|[<=>:])(.+)$/i;
+
+const timeOfDayPattern = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * Parses a search query into terms, all of which must match. Terms are free text, matched
+ * against the file name and every value, or field comparisons like `altitude>80`,
+ * `model:M3E` or `time=14:32`. Quoted text is one free text term.
+ *
+ * @param text - The query.
+ * @returns - The terms.
+ */
+const parseSearchQuery = (text: string): SearchTerm[] => {
+    const terms: SearchTerm[] = [];
+    for (const match of (text ?? '').matchAll(/"([^"]*)"|(\S+)/g)) {
+        const [, quoted, word] = match;
+        const term = word !== undefined ? termPattern.exec(word) : null;
+        if (term) {
+            terms.push({ field: term[1].toLowerCase(), operator: term[2] as SearchOperator, value: term[3] });
+        } else if (quoted || word) {
+            terms.push({ field: null, operator: ':', value: quoted ?? word });
+        }
+    }
+    return terms;
+};
+
+/**
+ * Prepares the frames for searching, reading each frame's photo record from its flight's imdat.
+ *
+ * @param frames - The prepared transform frames.
+ * @param attributes - The frame attributes.
+ * @param flights - The flights.
+ * @returns - The search entries, by frame index.
+ */
+const createSearchEntries = (frames: PreparedTransformFrame[], attributes: PhotoAttributes[], flights: Flight[]): SearchEntry[] => {
+    const photos = flights.map(flight => getPhotoRecords(flight.imdat));
+    return frames.map(({ frame, flight }, index) => {
+        const record = findPhotoRecord(photos[flight], frame.file_path, frame.colmap_im_id) ?? {};
+        const values: string[] = [frame.file_path ?? ''];
+        Object.values(record).forEach((value) => {
+            values.push(typeof value === 'object' ? JSON.stringify(value) : `${value}`);
+        });
+        if (attributes[index]?.time !== null && attributes[index]?.time !== undefined) {
+            values.push(formatLocalTime(attributes[index].time));
+        }
+        return { index, attributes: attributes[index], fields: normalizeRecord(record), text: values.join('\n').toLowerCase() };
+    });
+};
+
+// the values a field term is compared with, an exact key wins over keys containing the name
+const fieldValues = (entry: SearchEntry, field: string) => {
+    const attribute = attributeFields[field];
+    if (attribute) {
+        const value = entry.attributes?.[attribute];
+        return value === null || value === undefined ? [] : [attribute === 'flight' ? (value as number) + 1 : value];
+    }
+    if (entry.fields.has(field)) {
+        return [entry.fields.get(field)];
+    }
+    const result: any[] = [];
+    entry.fields.forEach((value, key) => {
+        if (key.includes(field)) {
+            result.push(value);
+        }
+    });
+    return result;
+};
+
+const compare = (a: number, b: number, operator: SearchOperator) => {
+    switch (operator) {
+        case '>': return a > b;
+        case '>=': return a >= b;
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '!=': return a !== b;
+        default: return a === b;
+    }
+};
+
+const matchValue = (value: any, term: SearchTerm, isTime: boolean) => {
+    const { operator } = term;
+    const query = term.value.toLowerCase();
+
+    if (isTime && typeof value === 'number') {
+        const timeOfDay = timeOfDayPattern.exec(term.value);
+        if (timeOfDay && operator !== ':' && operator !== '=' && operator !== '!=') {
+            const date = new Date(value);
+            const seconds = date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds();
+            return compare(seconds, Number(timeOfDay[1]) * 3600 + Number(timeOfDay[2]) * 60 + Number(timeOfDay[3] ?? 0), operator);
+        }
+        if (operator === ':' || operator === '=' || operator === '!=') {
+            return formatLocalTime(value).includes(query) !== (operator === '!=');
+        }
+        const time = Date.parse(term.value);
+        return Number.isFinite(time) && compare(value, time, operator);
+    }
+
+    const a = toNumber(value);
+    const b = toNumber(term.value);
+    if (a !== null && b !== null) {
+        return compare(a, b, operator === ':' ? '=' : operator);
+    }
+
+    const text = (typeof value === 'object' ? JSON.stringify(value) : `${value}`).toLowerCase();
+    switch (operator) {
+        case ':': return text.includes(query);
+        case '=': return text === query;
+        case '!=': return !text.includes(query);
+        default: return false;
+    }
+};
+
+/**
+ * Returns the frames matching every term of a query.
+ *
+ * @param entries - The search entries.
+ * @param terms - The parsed query.
+ * @returns - The matching frame indices, in capture order.
+ */
+const searchFrames = (entries: SearchEntry[], terms: SearchTerm[]) => {
+    return entries.filter((entry) => {
+        return terms.every((term) => {
+            if (term.field === null) {
+                return entry.text.includes(term.value.toLowerCase());
+            }
+            const values = fieldValues(entry, term.field);
+            const isTime = attributeFields[term.field] === 'time';
+            // a field the record lacks only matches a negation
+            return values.length === 0 ? term.operator === '!=' : values.some(value => matchValue(value, term, isTime));
+        });
+    }).map(entry => entry.index);
+};
+
+/**
+ * HUD panel searching the photo metadata of all frames, listing the matches with thumbnails.
+ * Clicking a result moves the camera to that frame.
+ */
+class FrameSearchPanel {
+    constructor(global: Global, cameraManager: CameraManager) {
+        const { events, flights, framePaths, state } = global;
+        const frames = cameraManager.transformFrames;
+
+        const dom = getElementsById(['frameSearchPanel', 'frameSearchInput', 'frameSearchClose', 'frameSearchCount', 'frameSearchList']);
+
+        if (frames.length === 0) {
+            return;
+        }
+
+        const input = dom.frameSearchInput as HTMLInputElement;
+        const entries = createSearchEntries(frames, cameraManager.frameAttributes, flights);
+
+        let selectedIndex = -1;
+        let results: number[] = [];
+
+        const createItem = (index: number) => {
+            const { time, altitude } = entries[index].attributes ?? {};
+            const details = [
+                time !== null && time !== undefined ? formatLocalTime(time) : null,
+                altitude !== null && altitude !== undefined ? `${Math.round(altitude)} m` : null
+            ].filter(Boolean);
+            return createFrameListItem(frames, index, framePaths, details, index === selectedIndex);
+        };
+
+        const search = () => {
+            const terms = parseSearchQuery(input.value);
+            results = terms.length > 0 ? searchFrames(entries, terms) : [];
+
+            const shown = results.slice(0, maxResults);
+            if (terms.length === 0) {
+                dom.frameSearchCount.textContent = `Search ${frames.length} photos`;
+            } else if (results.length > shown.length) {
+                dom.frameSearchCount.textContent = `First ${shown.length} of ${results.length} matches`;
+            } else {
+                dom.frameSearchCount.textContent = results.length === 1 ? '1 match' : `${results.length} matches`;
+            }
+            dom.frameSearchList.replaceChildren(...shown.map(createItem));
+            dom.frameSearchList.scrollTop = 0;
+        };
+        search();
+
+        let searchTimer = 0;
+        input.addEventListener('input', () => {
+            clearTimeout(searchTimer);
+            searchTimer = window.setTimeout(search, 150);
+        });
+
+        input.addEventListener('keydown', (event) => {
+            if (event.key === 'Enter') {
+                clearTimeout(searchTimer);
+                search();
+                if (results.length > 0) {
+                    events.fire('inputEvent', 'gotoTransformFrame', event, { index: results[0] });
+                }
+            } else if (event.key === 'Escape') {
+                state.frameSearchVisible = false;
+            }
+        });
+
+        dom.frameSearchList.addEventListener('click', (event) => {
+            const item = (event.target as HTMLElement).closest('.frameListItem') as HTMLElement;
+            if (item) {
+                events.fire('inputEvent', 'gotoTransformFrame', event, { index: Number(item.dataset.index) });
+            }
+        });
+
+        events.on('transformFrame:selected', (selection) => {
+            selectedIndex = selection?.index ?? -1;
+            dom.frameSearchList.querySelectorAll<HTMLElement>('.frameListItem').forEach((item) => {
+                item.classList.toggle('selected', Number(item.dataset.index) === selectedIndex);
+            });
+        });
+
+        dom.frameSearchClose.addEventListener('click', () => {
+            state.frameSearchVisible = false;
+        });
+
+        dom.frameSearchPanel.addEventListener('pointerdown', event => event.stopPropagation());
+
+        // keep typing in the query from reaching the camera controls
+        dom.frameSearchPanel.addEventListener('keydown', event => event.stopPropagation());
+
+        events.on('frameSearchVisible:changed', (value: boolean) => {
+            dom.frameSearchPanel.classList.toggle('hidden', !value);
+            if (value) {
+                input.focus();
+                input.select();
+            }
+        });
+    }
+}
+
+export type { SearchTerm };
+
+export { FrameSearchPanel, parseSearchQuery, searchFrames };
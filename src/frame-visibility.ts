@@ -0,0 +1,263 @@
+import { Vec3 } from 'playcanvas';
+
+import { frameAspect, type CameraManager, type PreparedTransformFrame } from './camera-manager';
+import { projectRay, undistortToRay } from './core/lens';
+import { getElementsById } from './dom';
+import { FrameIndex } from './frame-index';
+import { createFrameListItem } from './frame-list';
+import { formatGsd, formatLength } from './geo/format';
+import type { GeoTransform } from './geo/geo-transform';
+import type { Global } from './types';
+
+// a transform frame whose image contains a point
+type FrameHit = {
+    index: number;
+    u: number;                                  // normalized image position, 0..1 from the left
+    v: number;                                  // normalized image position, 0..1 from the top
+    distance: number;                           // metres, or scene units when not metric
+    gsd: number | null;                         // size of one pixel at the point, null without intrinsics
+    offAxis: number;                            // degrees between the optical axis and the point
+    score: number;                              // lower is better
+};
+
+// maximum number of frames listed in the panel
+const maxResults = 50;
+
+// distorted projections must map back to the original ray within this cosine
+const roundTripTolerance = 0.9999;
+
+const tmpDelta = new Vec3();
+const tmpRay = new Vec3();
+const tmpImage = new Vec3();
+const tmpCheck = new Vec3();
+const tmpEnu = new Vec3();
+
+// project a point into a frame, returning null when it lies outside the frame's frustum
+const projectToFrame = (frame: PreparedTransformFrame, index: number, point: Vec3, geo: GeoTransform): FrameHit | null => {
+    const { position, forward, right, up, intrinsics } = frame;
+
+    // OpenCV camera space: x right, y down, z forward
+    tmpDelta.sub2(point, position);
+    tmpRay.set(tmpDelta.dot(right), -tmpDelta.dot(up), tmpDelta.dot(forward));
+    const length = tmpRay.length();
+    if (tmpRay.z <= 0 || length === 0) {
+        return null;
+    }
+
+    let u: number;
+    let v: number;
+    let sampleSize: number;
+
+    const distance = geo.sceneVectorToEnu(tmpDelta, tmpEnu).length();
+    const depth = distance * tmpRay.z / length;
+
+    if (intrinsics) {
+        const { width, height, fx, fy, cx, cy, distortion } = intrinsics;
+        if (!projectRay(distortion, tmpRay, tmpImage)) {
+            return null;
+        }
+
+        u = (fx * tmpImage.x + cx) / width;
+        v = (fy * tmpImage.y + cy) / height;
+        if (u < 0 || u >= 1 || v < 0 || v >= 1) {
+            return null;
+        }
+
+        // strong distortion polynomials fold back on themselves beyond the calibrated field
+        if (distortion.model !== 'pinhole') {
+            undistortToRay(distortion, tmpImage.x, tmpImage.y, tmpCheck);
+            if (tmpCheck.dot(tmpRay) / length < roundTripTolerance) {
+                return null;
+            }
+        }
+
+        sampleSize = depth / fx;
+    } else {
+        const tanHalfX = Math.tan(frame.fov * Math.PI / 360);
+        const tanHalfY = tanHalfX / frameAspect(frame);
+        u = (tmpRay.x / tmpRay.z / tanHalfX + 1) * 0.5;
+        v = (tmpRay.y / tmpRay.z / tanHalfY + 1) * 0.5;
+        if (u < 0 || u >= 1 || v < 0 || v >= 1) {
+            return null;
+        }
+
+        // without a pixel count rank by the footprint of the whole image width
+        sampleSize = depth * tanHalfX * 2;
+    }
+
+    const cosOffAxis = tmpRay.z / length;
+
+    return {
+        index,
+        u,
+        v,
+        distance,
+        gsd: intrinsics ? sampleSize : null,
+        offAxis: Math.acos(Math.min(1, cosOffAxis)) * 180 / Math.PI,
+        // photos taken at an angle see the point foreshortened
+        score: sampleSize / cosOffAxis
+    };
+};
+
+/**
+ * Returns the scene space ray direction through a position in a frame's photo, the inverse of
+ * the projection used to find the frames seeing a point.
+ *
+ * @param frame - The prepared transform frame.
+ * @param u - Normalized photo position, 0..1 from the left.
+ * @param v - Normalized photo position, 0..1 from the top.
+ * @param aspect - Photo aspect, used when the frame has no intrinsics.
+ * @param out - The direction to write.
+ * @returns - The normalized direction.
+ */
+const frameRayAt = (frame: PreparedTransformFrame, u: number, v: number, aspect: number, out: Vec3) => {
+    const { forward, right, up, intrinsics } = frame;
+
+    if (intrinsics) {
+        const { width, height, fx, fy, cx, cy, distortion } = intrinsics;
+        undistortToRay(distortion, (u * width - cx) / fx, (v * height - cy) / fy, tmpRay);
+    } else {
+        const tanHalfX = Math.tan(frame.fov * Math.PI / 360);
+        tmpRay.set((u * 2 - 1) * tanHalfX, (v * 2 - 1) * tanHalfX / aspect, 1);
+    }
+
+    // OpenCV camera axes to scene space
+    out.copy(forward).mulScalar(tmpRay.z);
+    tmpDelta.copy(right).mulScalar(tmpRay.x);
+    out.add(tmpDelta);
+    tmpDelta.copy(up).mulScalar(-tmpRay.y);
+    return out.add(tmpDelta).normalize();
+};
+
+// photo corners and edge midpoints, the widest rays of a frame
+const photoEdges = [[0, 0], [0.5, 0], [1, 0], [1, 0.5], [1, 1], [0.5, 1], [0, 1], [0, 0.5]];
+
+/**
+ * Indexes transform frames by the cone through the edges of their photos, wider than their fov
+ * at the corners and under barrel distortion, for finding the frames that may see a point.
+ *
+ * @param frames - The prepared transform frames.
+ * @returns - The index.
+ */
+const createVisibilityIndex = (frames: PreparedTransformFrame[]) => {
+    return new FrameIndex(frames.map((frame) => {
+        const aspect = frameAspect(frame);
+        const halfFov = photoEdges.reduce((acc, [u, v]) => {
+            return Math.max(acc, Math.acos(Math.min(1, frameRayAt(frame, u, v, aspect, tmpCheck).dot(frame.forward))));
+        }, 0);
+        return { position: frame.position, forward: frame.forward, fov: halfFov * 360 / Math.PI };
+    }));
+};
+
+/**
+ * Finds the transform frames whose image contains a point, best first. Frames are ranked by the
+ * size of one pixel at the point, penalized by how far off the optical axis the point lies.
+ *
+ * @param frames - The prepared transform frames.
+ * @param point - The point in scene space.
+ * @param geo - The scene's geo transform, used to measure distances.
+ * @param frameIndex - The frames indexed by createVisibilityIndex.
+ * @returns - The frames seeing the point.
+ */
+const findFramesSeeingPoint = (frames: PreparedTransformFrame[], point: Vec3, geo: GeoTransform, frameIndex: FrameIndex) => {
+    const result: FrameHit[] = [];
+    frameIndex.overlapping(point, Vec3.FORWARD, 0, 0).forEach((index) => {
+        const hit = projectToFrame(frames[index], index, point, geo);
+        if (hit) {
+            result.push(hit);
+        }
+    });
+    return result.sort((a, b) => a.score - b.score);
+};
+
+/**
+ * HUD panel listing the photos that see the last picked point, with the point marked on each
+ * thumbnail. Clicking an entry moves the camera to that frame.
+ */
+class FrameVisibility {
+    hits: FrameHit[] = [];
+
+    constructor(global: Global, cameraManager: CameraManager) {
+        const { events, framePaths, geo } = global;
+        const frames = cameraManager.transformFrames;
+
+        const dom = getElementsById(['visibilityPanel', 'visibilityTitle', 'visibilityList', 'visibilityClose']);
+
+        if (frames.length === 0) {
+            return;
+        }
+
+        let selectedIndex = -1;
+
+        // built on the first pick
+        let frameIndex: FrameIndex | null = null;
+
+        const hide = () => {
+            dom.visibilityPanel.classList.add('hidden');
+        };
+
+        const createItem = (hit: FrameHit) => {
+            const marker = document.createElement('div');
+            marker.classList.add('visibilityMarker');
+            marker.style.left = `${hit.u * 100}%`;
+            marker.style.top = `${hit.v * 100}%`;
+
+            const details = [
+                hit.gsd !== null ? formatGsd(hit.gsd, geo.metric) : null,
+                `${Math.round(hit.offAxis)}° off-axis`,
+                formatLength(hit.distance, geo.metric)
+            ].filter(Boolean);
+            return createFrameListItem(frames, hit.index, framePaths, details, hit.index === selectedIndex, marker);
+        };
+
+        events.on('pick', (position: Vec3) => {
+            if (!frameIndex) {
+                frameIndex = createVisibilityIndex(frames);
+            }
+            this.hits = findFramesSeeingPoint(frames, position, geo, frameIndex);
+
+            const shown = this.hits.slice(0, maxResults);
+            if (this.hits.length === 0) {
+                dom.visibilityTitle.textContent = 'No photos see this point';
+            } else if (this.hits.length > shown.length) {
+                dom.visibilityTitle.textContent = `Photos of Point (best ${shown.length} of ${this.hits.length})`;
+            } else {
+                dom.visibilityTitle.textContent = `Photos of Point (${this.hits.length})`;
+            }
+            dom.visibilityList.replaceChildren(...shown.map(createItem));
+            dom.visibilityList.scrollTop = 0;
+            dom.visibilityPanel.classList.remove('hidden');
+        });
+
+        events.on('transformFrame:selected', (selection) => {
+            selectedIndex = selection?.index ?? -1;
+            dom.visibilityList.querySelectorAll<HTMLElement>('.frameListItem').forEach((item) => {
+                item.classList.toggle('selected', Number(item.dataset.index) === selectedIndex);
+            });
+        });
+
+        dom.visibilityList.addEventListener('click', (event) => {
+            const item = (event.target as HTMLElement).closest('.frameListItem') as HTMLElement;
+            if (item) {
+                events.fire('inputEvent', 'gotoTransformFrame', event, { index: Number(item.dataset.index) });
+            }
+        });
+
+        dom.visibilityPanel.addEventListener('pointerdown', event => event.stopPropagation());
+
+        dom.visibilityClose.addEventListener('click', (event) => {
+            event.stopPropagation();
+            hide();
+        });
+
+        events.on('inputEvent', (eventName) => {
+            if (eventName === 'cancel') {
+                hide();
+            }
+        });
+    }
+}
+
+export type { FrameHit };
+
+export { FrameVisibility, findFramesSeeingPoint, frameRayAt };
@@ -0,0 +1,153 @@
+import { Color, Vec3 } from 'playcanvas';
+
+import { frameAspect, type CameraManager, type PreparedTransformFrame } from './camera-manager';
+import { addClickListener } from './input-controller';
+import type { Global } from './types';
+
+const selectedColor = new Color(1, 0.4, 0);
+const flightPathColor = new Color(0.9, 0.9, 0.9);
+
+// hit test radius in pixels
+const hitRadius = 12;
+
+const tmpScreen = new Vec3();
+const tmpView = new Vec3();
+const tmpCenter = new Vec3();
+
+// append the eight edges of a frustum with its apex at the camera position
+const appendFrustum = (frame: PreparedTransformFrame, depth: number, out: number[]) => {
+    const { position, forward, right, up } = frame;
+    const halfWidth = depth * Math.tan(frame.fov * Math.PI / 360);
+    const halfHeight = halfWidth / frameAspect(frame);
+
+    const corners = [[-1, 1], [1, 1], [1, -1], [-1, -1]].map(([sx, sy]) => [
+        position.x + forward.x * depth + right.x * halfWidth * sx + up.x * halfHeight * sy,
+        position.y + forward.y * depth + right.y * halfWidth * sx + up.y * halfHeight * sy,
+        position.z + forward.z * depth + right.z * halfWidth * sx + up.z * halfHeight * sy
+    ]);
+
+    corners.forEach((corner, i) => {
+        const next = corners[(i + 1) % 4];
+        out.push(position.x, position.y, position.z, ...corner);
+        out.push(...corner, ...next);
+    });
+};
+
+// frustum depth from the median spacing between consecutive frames so neighbours don't overlap
+const frustumDepth = (frames: PreparedTransformFrame[]) => {
+    const spacings = frames.slice(1)
+    .map((frame, i) => frame.position.distance(frames[i].position))
+    .filter(d => d > 0)
+    .sort((a, b) => a - b);
+    return spacings.length > 0 ? spacings[Math.floor(spacings.length / 2)] * 0.5 : 1;
+};
+
+/**
+ * Renders the transform frames as wireframe camera frustums in their flight's colour with an
+ * optional flight path, and jumps to a frame when its frustum is clicked.
+ */
+class Frustums {
+    depth: number;
+
+    constructor(global: Global, cameraManager: CameraManager) {
+        const { app, camera, events, flights, state } = global;
+        const frames = cameraManager.transformFrames;
+        const canvas = app.graphicsDevice.canvas as HTMLCanvasElement;
+        const worldLayer = app.scene.layers.getLayerByName('World');
+
+        this.depth = frustumDepth(frames);
+
+        // frustum lines by flight, drawn in the flight's colour
+        const frustumLines = flights.map((): number[] => []);
+        frames.forEach(frame => appendFrustum(frame, this.depth, frustumLines[frame.flight]));
+
+        // the path connects consecutive frames of the same flight
+        const flightPathLines: number[] = [];
+        for (let i = 0; i < frames.length - 1; i++) {
+            if (frames[i].flight !== frames[i + 1].flight) {
+                continue;
+            }
+            const a = frames[i].position;
+            const b = frames[i + 1].position;
+            flightPathLines.push(a.x, a.y, a.z, b.x, b.y, b.z);
+        }
+
+        let selectedIndex = -1;
+        const selectedLines: number[] = [];
+
+        events.on('transformFrame:selected', (selection) => {
+            selectedIndex = selection?.index ?? -1;
+            selectedLines.length = 0;
+            if (selectedIndex >= 0 && selectedIndex < frames.length) {
+                appendFrustum(frames[selectedIndex], this.depth, selectedLines);
+            }
+            if (state.frustumsVisible) {
+                app.renderNextFrame = true;
+            }
+        });
+
+        events.on('frustumsVisible:changed', () => {
+            app.renderNextFrame = true;
+        });
+
+        events.on('flightPathVisible:changed', () => {
+            app.renderNextFrame = true;
+        });
+
+        app.on('prerender', () => {
+            if (state.frustumsVisible && frames.length > 0) {
+                frustumLines.forEach((lines, flight) => {
+                    if (lines.length > 0) {
+                        app.drawLineArrays(lines, flights[flight].color, true, worldLayer);
+                    }
+                });
+                if (selectedLines.length > 0) {
+                    app.drawLineArrays(selectedLines, selectedColor, true, worldLayer);
+                }
+            }
+            if (state.flightPathVisible && flightPathLines.length > 0) {
+                app.drawLineArrays(flightPathLines, flightPathColor, true, worldLayer);
+            }
+        });
+
+        // find the frustum under the cursor by its projected apex and image center
+        const hitTest = (x: number, y: number) => {
+            const { viewMatrix } = camera.camera;
+            let bestIndex = -1;
+            let bestDistance = hitRadius;
+
+            const test = (point: Vec3, index: number) => {
+                viewMatrix.transformPoint(point, tmpView);
+                if (tmpView.z >= 0) {
+                    return;
+                }
+                camera.camera.worldToScreen(point, tmpScreen);
+                const distance = Math.hypot(tmpScreen.x - x, tmpScreen.y - y);
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    bestIndex = index;
+                }
+            };
+
+            frames.forEach((frame, i) => {
+                test(frame.position, i);
+                test(tmpCenter.copy(frame.forward).mulScalar(this.depth).add(frame.position), i);
+            });
+
+            return bestIndex;
+        };
+
+        addClickListener(canvas, (event) => {
+            if (!state.frustumsVisible || state.measureMode) {
+                return;
+            }
+
+            const index = hitTest(event.offsetX, event.offsetY);
+            if (index >= 0) {
+                events.fire('inputEvent', 'gotoTransformFrame', event, { index });
+            }
+        });
+    }
+}
+
+export { Frustums };
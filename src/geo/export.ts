@@ -0,0 +1,128 @@
+import type { Vec3 } from 'playcanvas';
+
+import type { GeoTransform } from './geo-transform';
+
+type ExportGeometry = 'Point' | 'LineString' | 'Polygon';
+
+type ExportProperties = Record<string, string | number | boolean | null>;
+
+type ExportFeature = {
+    name: string;
+    geometry: ExportGeometry;
+    points: Vec3[];                             // scene space
+    properties: ExportProperties;
+};
+
+// convert a scene point to [lon, lat, height] when georeferenced, otherwise to world coordinates
+const toPosition = (point: Vec3, geo: GeoTransform) => {
+    const geodetic = geo.sceneToGeodetic(point);
+    if (geodetic) {
+        return [geodetic.lon, geodetic.lat, geodetic.height];
+    }
+    const world = geo.sceneToWorld(point);
+    return [world.x, world.y, world.z];
+};
+
+const toRing = (points: Vec3[], geo: GeoTransform) => {
+    const ring = points.map(p => toPosition(p, geo));
+    ring.push(ring[0].slice());
+    return ring;
+};
+
+/**
+ * Builds a GeoJSON FeatureCollection from the export features. Positions are WGS84
+ * [lon, lat, ellipsoidal height] as required by RFC 7946. Scenes without a geographic CRS fall
+ * back to world coordinates and record the CRS in each feature's properties.
+ *
+ * @param features - The features to export.
+ * @param geo - The scene geo transform.
+ * @returns - The FeatureCollection object.
+ */
+const toGeoJson = (features: ExportFeature[], geo: GeoTransform) => {
+    const geometry = (feature: ExportFeature) => {
+        switch (feature.geometry) {
+            case 'Point':
+                return { type: 'Point', coordinates: toPosition(feature.points[0], geo) };
+            case 'LineString':
+                return { type: 'LineString', coordinates: feature.points.map(p => toPosition(p, geo)) };
+            case 'Polygon':
+                return { type: 'Polygon', coordinates: [toRing(feature.points, geo)] };
+        }
+    };
+
+    return {
+        type: 'FeatureCollection',
+        features: features.map(feature => ({
+            type: 'Feature',
+            geometry: geometry(feature),
+            properties: {
+                name: feature.name,
+                ...(geo.georeferenced ? {} : { crs: geo.crsName }),
+                ...feature.properties
+            }
+        }))
+    };
+};
+
+const escapeXml = (value: string) => {
+    return value.replace(/[<>&'"]/g, (c) => {
+        switch (c) {
+            case '<': return '&lt;';
+            case '>': return '&gt;';
+            case '&': return '&amp;';
+            case '\'': return '&apos;';
+            default: return '&quot;';
+        }
+    });
+};
+
+/**
+ * Builds a KML document from the export features. Feature properties are written as
+ * ExtendedData. Heights are ellipsoidal, so placemarks may sit slightly off the terrain in
+ * viewers that treat absolute altitude as above mean sea level.
+ *
+ * @param features - The features to export.
+ * @param geo - The scene geo transform.
+ * @param name - The document name.
+ * @returns - The KML document text.
+ */
+const toKml = (features: ExportFeature[], geo: GeoTransform, name: string) => {
+    const coordinates = (positions: number[][]) => {
+        return positions.map(p => p.join(',')).join(' ');
+    };
+
+    const geometry = (feature: ExportFeature) => {
+        switch (feature.geometry) {
+            case 'Point':
+                return `<Point><altitudeMode>absolute</altitudeMode><coordinates>${coordinates([toPosition(feature.points[0], geo)])}</coordinates></Point>`;
+            case 'LineString':
+                return `<LineString><altitudeMode>absolute</altitudeMode><coordinates>${coordinates(feature.points.map(p => toPosition(p, geo)))}</coordinates></LineString>`;
+            case 'Polygon':
+                return `<Polygon><altitudeMode>absolute</altitudeMode><outerBoundaryIs><LinearRing><coordinates>${coordinates(toRing(feature.points, geo))}</coordinates></LinearRing></outerBoundaryIs></Polygon>`;
+        }
+    };
+
+    const placemark = (feature: ExportFeature) => {
+        const data = Object.entries(feature.properties)
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`)
+        .join('');
+        const description = typeof feature.properties.text === 'string' ? `<description>${escapeXml(feature.properties.text)}</description>` : '';
+        return `    <Placemark><name>${escapeXml(feature.name)}</name>${description}<ExtendedData>${data}</ExtendedData>${geometry(feature)}</Placemark>`;
+    };
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        `    <name>${escapeXml(name)}</name>`,
+        ...features.map(placemark),
+        '  </Document>',
+        '</kml>',
+        ''
+    ].join('\n');
+};
+
+export type { ExportFeature, ExportGeometry, ExportProperties };
+
+export { toGeoJson, toKml };
@@ -0,0 +1,91 @@
+import type { GeoCoordinate } from './geo-transform';
+
+const formatNumber = (value: number, digits: number) => {
+    return Number.isFinite(value) ? value.toFixed(digits) : '-';
+};
+
+/**
+ * Formats a latitude or longitude with its hemisphere letter.
+ *
+ * @param value - The angle in degrees.
+ * @param axis - 'lat' or 'lon'.
+ * @param digits - Number of decimal places.
+ * @returns - The formatted angle, e.g. "51.5001977° N".
+ */
+const formatLatLon = (value: number, axis: 'lat' | 'lon', digits = 7) => {
+    const hemisphere = axis === 'lat' ? (value < 0 ? 'S' : 'N') : (value < 0 ? 'W' : 'E');
+    return `${formatNumber(Math.abs(value), digits)}° ${hemisphere}`;
+};
+
+/**
+ * Formats a length in metres, or in scene units when the scene has no metric scale.
+ *
+ * @param value - The length.
+ * @param metric - Whether the value is in metres.
+ * @returns - The formatted length.
+ */
+const formatLength = (value: number, metric: boolean) => {
+    return metric ? `${formatNumber(value, 3)} m` : `${formatNumber(value, 3)} units`;
+};
+
+/**
+ * Formats an area in square metres, or in square scene units.
+ *
+ * @param value - The area.
+ * @param metric - Whether the value is in square metres.
+ * @returns - The formatted area.
+ */
+const formatArea = (value: number, metric: boolean) => {
+    return metric ? `${formatNumber(value, 2)} m²` : `${formatNumber(value, 2)} units²`;
+};
+
+/**
+ * Formats a ground sample distance, the size of one photo pixel at the subject.
+ *
+ * @param value - Metres per pixel, or scene units per pixel.
+ * @param metric - Whether the value is in metres.
+ * @returns - The formatted sample distance, e.g. "1.24 cm/px".
+ */
+const formatGsd = (value: number, metric: boolean) => {
+    if (!metric) {
+        return `${formatNumber(value, 4)} units/px`;
+    }
+    return value < 0.01 ? `${formatNumber(value * 1000, 2)} mm/px` : `${formatNumber(value * 100, 2)} cm/px`;
+};
+
+/**
+ * Formats a slope angle in degrees along with its grade.
+ *
+ * @param degrees - The slope angle in degrees.
+ * @returns - The formatted slope, e.g. "12.3° (21.8%)".
+ */
+const formatSlope = (degrees: number) => {
+    const grade = Math.abs(degrees) < 89.95 ? `${formatNumber(Math.tan(degrees * Math.PI / 180) * 100, 1)}%` : '∞';
+    return `${formatNumber(degrees, 1)}° (${grade})`;
+};
+
+// format the coordinate as labelled lines, most useful systems first
+const formatCoordinateLines = (coordinate: GeoCoordinate) => {
+    const { scene, world, crs, geodetic, utm } = coordinate;
+    const lines: string[] = [];
+
+    if (geodetic) {
+        lines.push(`Lat: ${formatLatLon(geodetic.lat, 'lat')}`);
+        lines.push(`Lon: ${formatLatLon(geodetic.lon, 'lon')}`);
+        lines.push(`Height: ${formatNumber(geodetic.height, 3)} m (ellipsoidal)`);
+    }
+
+    if (utm) {
+        lines.push(`UTM ${utm.zone}${utm.hemisphere}: ${formatNumber(utm.easting, 3)} E ${formatNumber(utm.northing, 3)} N`);
+    }
+
+    if (crs !== 'Local' && !crs.startsWith('UTM')) {
+        lines.push(`${crs}: ${formatNumber(world.x, 3)}, ${formatNumber(world.y, 3)}, ${formatNumber(world.z, 3)}`);
+    }
+
+    lines.push(`Scene: ${formatNumber(scene.x, 3)}, ${formatNumber(scene.y, 3)}, ${formatNumber(scene.z, 3)}`);
+
+    return lines;
+};
+
+export { formatNumber, formatLatLon, formatLength, formatArea, formatGsd, formatSlope, formatCoordinateLines };
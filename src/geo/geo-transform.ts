@@ -0,0 +1,433 @@
+import { Mat4, Vec3 } from 'playcanvas';
+
+import {
+    type Geodetic,
+    type UtmCoordinate,
+    ecefToGeodetic,
+    enuBasis,
+    geodeticToEcef,
+    geodeticToUtm,
+    utmToGeodetic
+} from './wgs84';
+
+// coordinate reference system of the world coordinates produced by the geo transform
+type GeoCrs =
+    { type: 'local' } |                         // not georeferenced, world is metric scene space
+    { type: 'ecef' } |                          // earth-centered earth-fixed (EPSG:4978)
+    { type: 'utm', zone: number, hemisphere: 'N' | 'S' } |
+    { type: 'enu', origin: Geodetic };          // local tangent plane at origin
+
+// a scene position expressed in every coordinate system the geo transform supports
+type GeoCoordinate = {
+    scene: Vec3;
+    world: Vec3;                                // coordinates in the configured CRS
+    crs: string;
+    geodetic: Geodetic | null;
+    utm: UtmCoordinate | null;
+};
+
+const tmpEnu = new Vec3();
+const tmpWorld = new Vec3();
+const tmpAxis = new Vec3();
+
+const isDegrees = (value: any) => {
+    return !!value && typeof value.x === 'number' && typeof value.y === 'number' && typeof value.z === 'number';
+};
+
+// locate the playcanvas candidate holding the scene rotation. the candidate object is also the
+// preferred place to look up the remaining similarity parameters.
+const findCandidate = (geoXform: any): { candidate: any, degrees: { x: number, y: number, z: number } | null } => {
+    const candidates = geoXform?.playcanvas_candidates;
+    if (isDegrees(candidates?.scene_xyz_deg_x_plus_90)) {
+        return { candidate: candidates, degrees: candidates.scene_xyz_deg_x_plus_90 };
+    }
+
+    if (candidates && typeof candidates === 'object') {
+        for (const candidate of Object.values(candidates as Record<string, any>)) {
+            if (isDegrees(candidate?.scene_xyz_deg_x_plus_90)) {
+                return { candidate, degrees: candidate.scene_xyz_deg_x_plus_90 };
+            }
+        }
+    }
+
+    const legacy = geoXform?.playcanvas_scene_xyz_deg_x_plus_90;
+    if (isDegrees(legacy)) {
+        return { candidate: geoXform, degrees: legacy };
+    }
+
+    return { candidate: null, degrees: null };
+};
+
+const readVec3 = (value: any): Vec3 | null => {
+    if (Array.isArray(value) && value.length >= 3 && value.slice(0, 3).every(v => typeof v === 'number')) {
+        return new Vec3(value[0], value[1], value[2]);
+    }
+    if (isDegrees(value)) {
+        return new Vec3(value.x, value.y, value.z);
+    }
+    return null;
+};
+
+// read a row-major 3x3 rotation, given either as nested rows or as 9 numbers
+const readRotation = (value: any): Mat4 | null => {
+    const flat = Array.isArray(value) ? value.flat() : null;
+    if (!flat || flat.length !== 9 || !flat.every(v => typeof v === 'number' && Number.isFinite(v))) {
+        return null;
+    }
+
+    const result = new Mat4();
+    const { data } = result;
+    for (let r = 0; r < 3; r++) {
+        for (let c = 0; c < 3; c++) {
+            data[c * 4 + r] = flat[r * 3 + c];
+        }
+    }
+    return result;
+};
+
+const readGeodetic = (value: any): Geodetic | null => {
+    const lat = value?.lat ?? value?.latitude;
+    const lon = value?.lon ?? value?.lng ?? value?.longitude;
+    const height = value?.height ?? value?.alt ?? value?.altitude ?? 0;
+    if (typeof lat !== 'number' || typeof lon !== 'number' || typeof height !== 'number') {
+        return null;
+    }
+    return { lat, lon, height };
+};
+
+const readCrs = (value: any): GeoCrs => {
+    const parseName = (name: string): GeoCrs | null => {
+        const normalized = name.trim().toUpperCase();
+        if (normalized === 'ECEF' || normalized === 'EPSG:4978') {
+            return { type: 'ecef' };
+        }
+
+        const epsg = normalized.match(/^EPSG:32([67])(\d{2})$/);
+        if (epsg) {
+            return { type: 'utm', zone: Number.parseInt(epsg[2], 10), hemisphere: epsg[1] === '6' ? 'N' : 'S' };
+        }
+
+        const utm = normalized.match(/^UTM\s*(\d{1,2})\s*([NS])?$/);
+        if (utm) {
+            return { type: 'utm', zone: Number.parseInt(utm[1], 10), hemisphere: utm[2] === 'S' ? 'S' : 'N' };
+        }
+
+        return null;
+    };
+
+    if (typeof value === 'string') {
+        return parseName(value) ?? { type: 'local' };
+    }
+
+    if (!value || typeof value !== 'object') {
+        return { type: 'local' };
+    }
+
+    const type = typeof value.type === 'string' ? value.type.toLowerCase() : '';
+    switch (type) {
+        case 'ecef':
+            return { type: 'ecef' };
+        case 'utm': {
+            const zone = value.zone;
+            if (typeof zone === 'number' && zone >= 1 && zone <= 60) {
+                const hemisphere = typeof value.hemisphere === 'string' && value.hemisphere.toUpperCase().startsWith('S') ? 'S' : 'N';
+                return { type: 'utm', zone, hemisphere };
+            }
+            break;
+        }
+        case 'enu': {
+            const origin = readGeodetic(value.origin);
+            if (origin) {
+                return { type: 'enu', origin };
+            }
+            break;
+        }
+    }
+
+    return (typeof value.name === 'string' && parseName(value.name)) || { type: 'local' };
+};
+
+/**
+ * Similarity transform between viewer scene space and real-world coordinates, parsed from
+ * geo_xform.json.
+ *
+ * Scene space is Y-up with -Z facing north. A scene position p maps to world coordinates as
+ * `translation + scale * rotation * p`, where rotation takes the scene axes to east, north and up
+ * (by default a plain axis swap). The resulting world coordinates are interpreted according to the
+ * CRS: UTM easting/northing/height, metres relative to an ENU origin, or ECEF, in which case the
+ * east/north/up offset is expanded about the tangent plane at the translation.
+ */
+class GeoTransform {
+    // rotation from reconstruction (transforms.json) space to scene space
+    sceneRotation: Mat4 | null = null;
+
+    // scene axes to east/north/up
+    rotation = new Mat4();
+
+    rotationInverse = new Mat4();
+
+    // metres per scene unit
+    scale = 1;
+
+    // world coordinates of the scene origin
+    translation = new Vec3();
+
+    crs: GeoCrs = { type: 'local' };
+
+    // true when the scale is known to convert scene units to metres
+    metric = false;
+
+    // cached tangent plane basis for ECEF and ENU systems
+    private _origin: Geodetic | null = null;
+
+    private _originEcef = new Vec3();
+
+    private _east = new Vec3(1, 0, 0);
+
+    private _north = new Vec3(0, 1, 0);
+
+    private _up = new Vec3(0, 0, 1);
+
+    constructor() {
+        this.setRotation(null);
+    }
+
+    get georeferenced() {
+        return this.crs.type !== 'local';
+    }
+
+    get crsName() {
+        switch (this.crs.type) {
+            case 'ecef': return 'ECEF';
+            case 'utm': return `UTM ${this.crs.zone}${this.crs.hemisphere}`;
+            case 'enu': return 'ENU';
+            default: return 'Local';
+        }
+    }
+
+    setRotation(rotation: Mat4 | null) {
+        if (rotation) {
+            this.rotation.copy(rotation);
+        } else {
+            // scene (x, y, z) -> (east, north, up) = (x, -z, y)
+            this.rotation.data.set([
+                1, 0, 0, 0,
+                0, 0, 1, 0,
+                0, -1, 0, 0,
+                0, 0, 0, 1
+            ]);
+        }
+        this.rotationInverse.copy(this.rotation).invert();
+    }
+
+    setCrs(crs: GeoCrs) {
+        this.crs = crs;
+        this._origin = null;
+
+        if (crs.type === 'ecef') {
+            this._origin = ecefToGeodetic(this.translation);
+            this._originEcef.copy(this.translation);
+        } else if (crs.type === 'enu') {
+            this._origin = crs.origin;
+            geodeticToEcef(crs.origin, this._originEcef);
+        }
+
+        if (this._origin) {
+            enuBasis(this._origin, this._east, this._north, this._up);
+        }
+    }
+
+    // offset an ECEF origin by an east/north/up vector in its tangent plane
+    private expandEnu(origin: Vec3, enu: Vec3, out: Vec3) {
+        const { x, y, z } = enu;
+        return out.copy(origin)
+        .add(tmpAxis.copy(this._east).mulScalar(x))
+        .add(tmpAxis.copy(this._north).mulScalar(y))
+        .add(tmpAxis.copy(this._up).mulScalar(z));
+    }
+
+    // project an ECEF offset onto the tangent plane axes
+    private projectEnu(offset: Vec3, out: Vec3) {
+        return out.set(offset.dot(this._east), offset.dot(this._north), offset.dot(this._up));
+    }
+
+    /**
+     * Converts a scene space direction to a metric east/north/up vector.
+     *
+     * @param vector - The scene space vector.
+     * @param out - The output east/north/up vector.
+     * @returns - The output vector.
+     */
+    sceneVectorToEnu(vector: Vec3, out: Vec3 = new Vec3()) {
+        return this.rotation.transformVector(vector, out).mulScalar(this.scale);
+    }
+
+    /**
+     * Converts a metric east/north/up vector to a scene space direction.
+     *
+     * @param vector - The east/north/up vector.
+     * @param out - The output scene space vector.
+     * @returns - The output vector.
+     */
+    enuVectorToScene(vector: Vec3, out: Vec3 = new Vec3()) {
+        return this.rotationInverse.transformVector(vector, out).mulScalar(1 / this.scale);
+    }
+
+    /**
+     * Converts a scene space position to world coordinates in the configured CRS.
+     *
+     * @param point - The scene space position.
+     * @param out - The output world coordinates.
+     * @returns - The output vector.
+     */
+    sceneToWorld(point: Vec3, out: Vec3 = new Vec3()) {
+        const enu = this.sceneVectorToEnu(point, tmpEnu);
+        if (this.crs.type === 'ecef') {
+            return this.expandEnu(this.translation, enu, out);
+        }
+        return out.add2(this.translation, enu);
+    }
+
+    /**
+     * Converts world coordinates in the configured CRS to a scene space position.
+     *
+     * @param point - The world coordinates.
+     * @param out - The output scene space position.
+     * @returns - The output vector.
+     */
+    worldToScene(point: Vec3, out: Vec3 = new Vec3()) {
+        tmpEnu.sub2(point, this.translation);
+        if (this.crs.type === 'ecef') {
+            this.projectEnu(tmpEnu, tmpEnu);
+        }
+        return this.enuVectorToScene(tmpEnu, out);
+    }
+
+    /**
+     * Converts a scene space position to WGS84 latitude, longitude and ellipsoidal height.
+     *
+     * @param point - The scene space position.
+     * @returns - The geodetic coordinate or null if the scene is not georeferenced.
+     */
+    sceneToGeodetic(point: Vec3): Geodetic | null {
+        const world = this.sceneToWorld(point, tmpWorld);
+        switch (this.crs.type) {
+            case 'ecef':
+                return ecefToGeodetic(world);
+            case 'utm':
+                return utmToGeodetic({
+                    zone: this.crs.zone,
+                    hemisphere: this.crs.hemisphere,
+                    easting: world.x,
+                    northing: world.y,
+                    height: world.z
+                });
+            case 'enu':
+                return ecefToGeodetic(this.expandEnu(this._originEcef, world, tmpWorld));
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Converts WGS84 geodetic coordinates to a scene space position.
+     *
+     * @param geodetic - The geodetic coordinate.
+     * @param out - The output scene space position.
+     * @returns - The output vector or null if the scene is not georeferenced.
+     */
+    geodeticToScene(geodetic: Geodetic, out: Vec3 = new Vec3()): Vec3 | null {
+        switch (this.crs.type) {
+            case 'ecef':
+                return this.worldToScene(geodeticToEcef(geodetic, tmpWorld), out);
+            case 'utm': {
+                const utm = geodeticToUtm(geodetic, this.crs.zone);
+                // points across the equator keep the northing of the configured hemisphere
+                const northing = utm.hemisphere === this.crs.hemisphere ? utm.northing :
+                    utm.northing + (this.crs.hemisphere === 'S' ? 10000000 : -10000000);
+                return this.worldToScene(tmpWorld.set(utm.easting, northing, utm.height), out);
+            }
+            case 'enu':
+                geodeticToEcef(geodetic, tmpWorld).sub(this._originEcef);
+                return this.worldToScene(this.projectEnu(tmpWorld, tmpWorld), out);
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Converts a scene space position to UTM. Scenes defined in UTM stay in their own zone, other
+     * systems use the zone containing the point.
+     *
+     * @param point - The scene space position.
+     * @returns - The UTM coordinate or null if the scene is not georeferenced.
+     */
+    sceneToUtm(point: Vec3): UtmCoordinate | null {
+        if (this.crs.type === 'utm') {
+            const world = this.sceneToWorld(point, tmpWorld);
+            return {
+                zone: this.crs.zone,
+                hemisphere: this.crs.hemisphere,
+                easting: world.x,
+                northing: world.y,
+                height: world.z
+            };
+        }
+
+        const geodetic = this.sceneToGeodetic(point);
+        return geodetic ? geodeticToUtm(geodetic) : null;
+    }
+
+    /**
+     * Converts a scene space position to all supported coordinate systems.
+     *
+     * @param point - The scene space position.
+     * @returns - The converted coordinate.
+     */
+    sceneToCoordinate(point: Vec3): GeoCoordinate {
+        return {
+            scene: point.clone(),
+            world: this.sceneToWorld(point),
+            crs: this.crsName,
+            geodetic: this.sceneToGeodetic(point),
+            utm: this.sceneToUtm(point)
+        };
+    }
+
+    // construct a geo transform from geo_xform.json contents. missing fields fall back to identity.
+    static fromJson(geoXform: any) {
+        const result = new GeoTransform();
+        const { candidate, degrees } = findCandidate(geoXform);
+
+        if (degrees) {
+            result.sceneRotation = new Mat4().setFromEulerAngles(degrees.x, degrees.y, degrees.z);
+        }
+
+        // similarity parameters may be stored with the candidate or at the top level
+        const lookup = (key: string) => candidate?.[key] ?? geoXform?.[key];
+
+        const scale = lookup('scale');
+        if (typeof scale === 'number' && Number.isFinite(scale) && scale > 0) {
+            result.scale = scale;
+            result.metric = true;
+        }
+
+        const translation = readVec3(lookup('translation'));
+        if (translation) {
+            result.translation.copy(translation);
+        }
+
+        result.setRotation(readRotation(lookup('rotation')));
+        result.setCrs(readCrs(lookup('crs')));
+
+        if (result.georeferenced) {
+            result.metric = true;
+        }
+
+        return result;
+    }
+}
+
+export type { GeoCrs, GeoCoordinate };
+
+export { GeoTransform };
@@ -0,0 +1,168 @@
+type OverlayPosition = [number, number, number?];
+
+// how heights are interpreted: absolute ellipsoidal, relative to the height of the scene origin or
+// at the origin height. the scene has no terrain model, so KML's ground stands for the origin height
+type OverlayHeightMode = 'absolute' | 'relativeToOrigin' | 'originHeight';
+
+type OverlayFeature = {
+    name: string | null;
+    type: 'point' | 'line' | 'polygon';
+    positions: OverlayPosition[][];             // a single point, a line, or polygon rings
+    heightMode: OverlayHeightMode;
+};
+
+type OverlayData = {
+    name: string;
+    features: OverlayFeature[];
+};
+
+const isPosition = (value: any): value is OverlayPosition => {
+    return Array.isArray(value) && value.length >= 2 && typeof value[0] === 'number' && typeof value[1] === 'number';
+};
+
+const toPosition = (value: number[]): OverlayPosition => {
+    return value.length >= 3 && Number.isFinite(value[2]) ? [value[0], value[1], value[2]] : [value[0], value[1]];
+};
+
+const parseGeoJson = (json: any, name: string): OverlayData => {
+    const features: OverlayFeature[] = [];
+
+    const addGeometry = (geometry: any, featureName: string | null) => {
+        if (!geometry || typeof geometry !== 'object') {
+            return;
+        }
+
+        const { type, coordinates } = geometry;
+
+        const add = (featureType: OverlayFeature['type'], lists: any[][]) => {
+            const positions = lists.map(list => list.filter(isPosition).map(toPosition)).filter(list => list.length > 0);
+            if (positions.length > 0) {
+                const hasHeight = positions.every(list => list.every(p => p.length === 3));
+                features.push({ name: featureName, type: featureType, positions, heightMode: hasHeight ? 'absolute' : 'originHeight' });
+            }
+        };
+
+        switch (type) {
+            case 'Point':
+                add('point', [[coordinates]]);
+                break;
+            case 'MultiPoint':
+                coordinates?.forEach((c: any) => add('point', [[c]]));
+                break;
+            case 'LineString':
+                add('line', [coordinates ?? []]);
+                break;
+            case 'MultiLineString':
+                coordinates?.forEach((c: any) => add('line', [c ?? []]));
+                break;
+            case 'Polygon':
+                add('polygon', coordinates ?? []);
+                break;
+            case 'MultiPolygon':
+                coordinates?.forEach((c: any) => add('polygon', c ?? []));
+                break;
+            case 'GeometryCollection':
+                geometry.geometries?.forEach((g: any) => addGeometry(g, featureName));
+                break;
+        }
+    };
+
+    const addFeature = (feature: any) => {
+        const properties = feature?.properties ?? {};
+        const featureName = properties.name ?? properties.title ?? feature?.id ?? null;
+        addGeometry(feature?.geometry, featureName === null ? null : String(featureName));
+    };
+
+    switch (json?.type) {
+        case 'FeatureCollection':
+            json.features?.forEach(addFeature);
+            break;
+        case 'Feature':
+            addFeature(json);
+            break;
+        default:
+            addGeometry(json, null);
+            break;
+    }
+
+    return { name: json?.name ?? name, features };
+};
+
+const parseKml = (text: string, name: string): OverlayData => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Invalid KML document');
+    }
+
+    const childText = (element: Element, tag: string) => {
+        const child = Array.from(element.children).find(c => c.localName === tag);
+        return child?.textContent?.trim() ?? null;
+    };
+
+    const parseCoordinates = (element: Element | undefined) => {
+        const coordinates = element && Array.from(element.getElementsByTagName('*')).find(c => c.localName === 'coordinates');
+        return (coordinates?.textContent ?? '')
+        .trim()
+        .split(/\s+/)
+        .map(tuple => tuple.split(',').map(Number))
+        .filter(isPosition)
+        .map(toPosition);
+    };
+
+    const heightMode = (element: Element): OverlayHeightMode => {
+        const mode = childText(element, 'altitudeMode');
+        return mode === 'absolute' ? 'absolute' : (mode === 'relativeToGround' ? 'relativeToOrigin' : 'originHeight');
+    };
+
+    const features: OverlayFeature[] = [];
+
+    Array.from(doc.getElementsByTagName('*')).filter(e => e.localName === 'Placemark').forEach((placemark) => {
+        const placemarkName = childText(placemark, 'name');
+
+        Array.from(placemark.getElementsByTagName('*')).forEach((element) => {
+            switch (element.localName) {
+                case 'Point':
+                case 'LineString': {
+                    const positions = parseCoordinates(element);
+                    if (positions.length > 0) {
+                        const type = element.localName === 'Point' ? 'point' : 'line';
+                        features.push({ name: placemarkName, type, positions: [positions], heightMode: heightMode(element) });
+                    }
+                    break;
+                }
+                case 'Polygon': {
+                    const rings = Array.from(element.getElementsByTagName('*'))
+                    .filter(e => e.localName === 'outerBoundaryIs' || e.localName === 'innerBoundaryIs')
+                    .sort((a, b) => (a.localName === 'outerBoundaryIs' ? 0 : 1) - (b.localName === 'outerBoundaryIs' ? 0 : 1))
+                    .map(parseCoordinates)
+                    .filter(ring => ring.length > 0);
+                    if (rings.length > 0) {
+                        features.push({ name: placemarkName, type: 'polygon', positions: rings, heightMode: heightMode(element) });
+                    }
+                    break;
+                }
+            }
+        });
+    });
+
+    const documentName = Array.from(doc.getElementsByTagName('*')).find(e => e.localName === 'Document');
+    return { name: (documentName && childText(documentName, 'name')) || name, features };
+};
+
+/**
+ * Parses a GeoJSON or KML vector overlay. Coordinates are kept as [x, y, height?] in the source
+ * reference system, which is [lon, lat] for both formats.
+ *
+ * @param text - The file contents.
+ * @param url - The url the overlay was loaded from, used for format detection and naming.
+ * @returns - The parsed overlay.
+ */
+const parseOverlay = (text: string, url: string): OverlayData => {
+    const filename = url.split(/[?#]/)[0].split('/').pop() || url;
+    const name = filename.replace(/\.(geo)?json$|\.kml$/i, '');
+    return text.trimStart().startsWith('<') ? parseKml(text, name) : parseGeoJson(JSON.parse(text), name);
+};
+
+export type { OverlayData, OverlayFeature, OverlayHeightMode, OverlayPosition };
+
+export { parseOverlay };
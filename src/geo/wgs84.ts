@@ -0,0 +1,178 @@
+import { Vec3 } from 'playcanvas';
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+// WGS84 ellipsoid
+const a = 6378137;
+const f = 1 / 298.257223563;
+const e2 = f * (2 - f);
+
+// UTM (Krüger series, accurate to well under a millimetre within a zone)
+const k0 = 0.9996;
+const falseEasting = 500000;
+const falseNorthingSouth = 10000000;
+const n = f / (2 - f);
+const n2 = n * n;
+const n3 = n2 * n;
+const A = a / (1 + n) * (1 + n2 / 4 + n2 * n2 / 64);
+const alpha = [n / 2 - 2 * n2 / 3 + 5 * n3 / 16, 13 * n2 / 48 - 3 * n3 / 5, 61 * n3 / 240];
+const beta = [n / 2 - 2 * n2 / 3 + 37 * n3 / 96, n2 / 48 + n3 / 15, 17 * n3 / 480];
+const delta = [2 * n - 2 * n2 / 3 - 2 * n3, 7 * n2 / 3 - 8 * n3 / 5, 56 * n3 / 15];
+const conformal = 2 * Math.sqrt(n) / (1 + n);
+
+type Geodetic = {
+    lat: number;                                // degrees
+    lon: number;                                // degrees
+    height: number;                             // metres above the ellipsoid
+};
+
+type UtmCoordinate = {
+    zone: number;
+    hemisphere: 'N' | 'S';
+    easting: number;
+    northing: number;
+    height: number;
+};
+
+/**
+ * Converts geodetic coordinates to earth-centered earth-fixed coordinates.
+ *
+ * @param geodetic - The geodetic coordinate.
+ * @param out - The output ECEF position in metres.
+ * @returns - The output vector.
+ */
+const geodeticToEcef = (geodetic: Geodetic, out: Vec3 = new Vec3()) => {
+    const lat = geodetic.lat * DEG_TO_RAD;
+    const lon = geodetic.lon * DEG_TO_RAD;
+    const sinLat = Math.sin(lat);
+    const cosLat = Math.cos(lat);
+    const N = a / Math.sqrt(1 - e2 * sinLat * sinLat);
+
+    return out.set(
+        (N + geodetic.height) * cosLat * Math.cos(lon),
+        (N + geodetic.height) * cosLat * Math.sin(lon),
+        (N * (1 - e2) + geodetic.height) * sinLat
+    );
+};
+
+/**
+ * Converts earth-centered earth-fixed coordinates to geodetic coordinates.
+ *
+ * @param ecef - The ECEF position in metres.
+ * @returns - The geodetic coordinate.
+ */
+const ecefToGeodetic = (ecef: Vec3): Geodetic => {
+    const { x, y, z } = ecef;
+    const p = Math.hypot(x, y);
+    const lon = Math.atan2(y, x);
+
+    let lat = Math.atan2(z, p * (1 - e2));
+    let height = 0;
+    for (let i = 0; i < 6; i++) {
+        const sinLat = Math.sin(lat);
+        const N = a / Math.sqrt(1 - e2 * sinLat * sinLat);
+        const cosLat = Math.cos(lat);
+        height = Math.abs(cosLat) > 1e-9 ? p / cosLat - N : Math.abs(z) - N * (1 - e2);
+        lat = Math.atan2(z, p * (1 - e2 * N / (N + height)));
+    }
+
+    return {
+        lat: lat * RAD_TO_DEG,
+        lon: lon * RAD_TO_DEG,
+        height
+    };
+};
+
+// calculate the east, north and up unit vectors of the local tangent plane at the given origin
+const enuBasis = (origin: Geodetic, east: Vec3, north: Vec3, up: Vec3) => {
+    const lat = origin.lat * DEG_TO_RAD;
+    const lon = origin.lon * DEG_TO_RAD;
+    const sinLat = Math.sin(lat);
+    const cosLat = Math.cos(lat);
+    const sinLon = Math.sin(lon);
+    const cosLon = Math.cos(lon);
+
+    east.set(-sinLon, cosLon, 0);
+    north.set(-sinLat * cosLon, -sinLat * sinLon, cosLat);
+    up.set(cosLat * cosLon, cosLat * sinLon, sinLat);
+};
+
+/**
+ * Returns the UTM zone containing the given longitude.
+ *
+ * @param lon - Longitude in degrees.
+ * @returns - The zone number in the range [1, 60].
+ */
+const utmZoneFromLon = (lon: number) => {
+    const wrapped = ((lon + 180) % 360 + 360) % 360;
+    return Math.min(60, Math.floor(wrapped / 6) + 1);
+};
+
+/**
+ * Converts geodetic coordinates to UTM. The zone is derived from the longitude unless supplied.
+ *
+ * @param geodetic - The geodetic coordinate.
+ * @param zone - Optional zone to project into.
+ * @returns - The UTM coordinate.
+ */
+const geodeticToUtm = (geodetic: Geodetic, zone: number = utmZoneFromLon(geodetic.lon)): UtmCoordinate => {
+    const lat = geodetic.lat * DEG_TO_RAD;
+    const dLon = (geodetic.lon - (zone * 6 - 183)) * DEG_TO_RAD;
+
+    const sinLat = Math.sin(lat);
+    const t = Math.sinh(Math.atanh(sinLat) - conformal * Math.atanh(conformal * sinLat));
+    const xi = Math.atan2(t, Math.cos(dLon));
+    const eta = Math.atanh(Math.sin(dLon) / Math.sqrt(1 + t * t));
+
+    let easting = eta;
+    let northing = xi;
+    for (let j = 1; j <= 3; j++) {
+        easting += alpha[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+        northing += alpha[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+    }
+
+    const hemisphere = geodetic.lat < 0 ? 'S' : 'N';
+
+    return {
+        zone,
+        hemisphere,
+        easting: falseEasting + k0 * A * easting,
+        northing: (hemisphere === 'S' ? falseNorthingSouth : 0) + k0 * A * northing,
+        height: geodetic.height
+    };
+};
+
+/**
+ * Converts UTM coordinates to geodetic coordinates.
+ *
+ * @param utm - The UTM coordinate.
+ * @returns - The geodetic coordinate.
+ */
+const utmToGeodetic = (utm: UtmCoordinate): Geodetic => {
+    const xi = (utm.northing - (utm.hemisphere === 'S' ? falseNorthingSouth : 0)) / (k0 * A);
+    const eta = (utm.easting - falseEasting) / (k0 * A);
+
+    let xiPrime = xi;
+    let etaPrime = eta;
+    for (let j = 1; j <= 3; j++) {
+        xiPrime -= beta[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+        etaPrime -= beta[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+    }
+
+    const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+    let lat = chi;
+    for (let j = 1; j <= 3; j++) {
+        lat += delta[j - 1] * Math.sin(2 * j * chi);
+    }
+
+    return {
+        lat: lat * RAD_TO_DEG,
+        lon: (utm.zone * 6 - 183) + Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime)) * RAD_TO_DEG,
+        height: utm.height
+    };
+};
+
+export type { Geodetic, UtmCoordinate };
+
+export { geodeticToEcef, ecefToGeodetic, enuBasis, utmZoneFromLon, geodeticToUtm, utmToGeodetic };
@@ -0,0 +1,300 @@
+import { Color, Vec3 } from 'playcanvas';
+
+import type { CameraManager } from './camera-manager';
+import { getElementsById } from './dom';
+import { readJpegMetadata } from './exif';
+import { findPhotoRecord, getPhotoRecords, normalizeRecord, toNumber } from './frame-metadata';
+import { formatLength, formatNumber } from './geo/format';
+import type { Global } from './types';
+
+// a frame's GPS capture position compared with its reconstructed camera
+type GpsSample = {
+    index: number;
+    position: Vec3;                             // GPS position in scene space
+    offset: Vec3;                               // GPS minus camera position in metres east/north/up
+    hasHeight: boolean;                         // false without a GPS altitude, placed at the camera's height
+};
+
+// record keys holding the GPS position, by key without namespace, lowercased
+const latitudeKeys = ['gpslatitude', 'latitude', 'lat'];
+const longitudeKeys = ['gpslongitude', 'longitude', 'lon', 'lng'];
+const heightKeys = ['absolutealtitude', 'gpsaltitude', 'altitude', 'alt'];
+
+const trackColor = new Color(0.3, 0.8, 1);
+
+// offsets in metres at which the vectors turn yellow and then red
+const warnOffset = 2;
+const errorOffset = 10;
+
+const offsetColors = [[0.2, 0.9, 0.3], [1, 0.85, 0.1], [1, 0.2, 0.15]];
+
+// photos read for their exif GPS at once, and at most in all, spread over the capture
+const maxReads = 4;
+const maxExifReads = 1000;
+
+const tmpScene = new Vec3();
+const tmpEnu = new Vec3();
+
+// read the GPS position of a photo record, null when it has no latitude and longitude and a null
+// height when it has no altitude
+const readGps = (record: Record<string, any> | null) => {
+    if (!record) {
+        return null;
+    }
+
+    const fields = normalizeRecord(record);
+
+    const find = (keys: string[]) => {
+        for (const key of keys) {
+            const value = toNumber(fields.get(key));
+            if (value !== null) {
+                return value;
+            }
+        }
+        return null;
+    };
+
+    const lat = find(latitudeKeys);
+    const lon = find(longitudeKeys);
+    if (lat === null || lon === null || Math.abs(lat) > 90 || Math.abs(lon) > 180 || (lat === 0 && lon === 0)) {
+        return null;
+    }
+    return { lat, lon, height: find(heightKeys) };
+};
+
+// green through yellow to red as the offset grows, as r,g,b,a
+const offsetColor = (distance: number) => {
+    const [from, to, t] = distance < warnOffset ?
+        [offsetColors[0], offsetColors[1], distance / warnOffset] :
+        [offsetColors[1], offsetColors[2], Math.min(1, (distance - warnOffset) / (errorOffset - warnOffset))];
+    return [0, 1, 2].map(i => from[i] + (to[i] - from[i]) * t).concat(1);
+};
+
+const median = (values: number[]) => {
+    const sorted = values.slice().sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Plots the GPS capture positions of the photos, read from the imdat photo records or the photos'
+ * exif, next to the cameras of the reconstruction. Each camera is joined to its GPS position by a
+ * vector coloured by the length of the offset, which shows at a glance when the reconstruction is
+ * shifted, scaled or rotated against GPS.
+ */
+class GpsTrack {
+    samples: GpsSample[] = [];
+
+    // compare positions on the ground only, GPS heights are often above sea level rather than
+    // the ellipsoid
+    horizontal = false;
+
+    /**
+     * @param global - The global state.
+     * @param cameraManager - The camera manager holding the transform frames.
+     * @param markerSize - Size of the GPS position markers in scene units.
+     */
+    constructor(global: Global, cameraManager: CameraManager, markerSize: number) {
+        const { app, events, flights, framePaths, geo, imageCache, state } = global;
+        const frames = cameraManager.transformFrames;
+        const worldLayer = app.scene.layers.getLayerByName('World');
+
+        const dom = getElementsById(['gpsTrackPanel', 'gpsTrackHorizontal', 'gpsTrackClose', 'gpsTrackText', 'gpsTrackWarn', 'gpsTrackError']);
+
+        if (frames.length === 0 || !geo.georeferenced) {
+            return;
+        }
+
+        const { metric } = geo;
+        const unit = metric ? 'm' : 'units';
+        dom.gpsTrackWarn.textContent = `${warnOffset} ${unit}`;
+        dom.gpsTrackError.textContent = `≥${errorOffset} ${unit}`;
+
+        const samples = frames.map((): GpsSample | null => null);
+
+        const setSample = (index: number, record: Record<string, any> | null) => {
+            const gps = readGps(record);
+            if (!gps) {
+                return;
+            }
+            const hasHeight = gps.height !== null;
+            const height = hasHeight ? gps.height : geo.sceneToGeodetic(frames[index].position)?.height ?? 0;
+            const position = geo.geodeticToScene({ lat: gps.lat, lon: gps.lon, height }, new Vec3());
+            if (position) {
+                const offset = geo.sceneVectorToEnu(tmpScene.sub2(position, frames[index].position), new Vec3());
+                samples[index] = { index, position, offset, hasHeight };
+            }
+        };
+
+        const photos = flights.map(flight => getPhotoRecords(flight.imdat));
+        frames.forEach(({ frame, flight }, index) => {
+            setSample(index, findPhotoRecord(photos[flight], frame.file_path, frame.colmap_im_id));
+        });
+
+        let markerLines: number[] = [];
+        let trackLines: number[] = [];
+        let offsetLines: number[] = [];
+        let offsetLineColors: number[] = [];
+        let dirty = true;
+
+        // exif reading progress, null until started
+        let reading: { done: number, total: number } | null = null;
+
+        const invalidate = () => {
+            dirty = true;
+            app.renderNextFrame = true;
+        };
+
+        const updateText = () => {
+            const found = this.samples;
+            const lines = [`${found.length} of ${frames.length} photos with GPS`];
+
+            if (found.length > 0) {
+                // photos without a GPS altitude only count on the ground
+                const withHeight = found.filter(({ hasHeight }) => hasHeight);
+                const vertical = !this.horizontal && withHeight.length > 0;
+
+                const horizontal = found.map(({ offset }) => Math.hypot(offset.x, offset.y));
+                const heights = withHeight.map(({ offset }) => offset.z);
+                const mean = found.reduce((acc, { offset }) => acc.add(offset), new Vec3()).mulScalar(1 / found.length);
+                const meanUp = heights.reduce((acc, z) => acc + z, 0) / heights.length;
+                lines.push(vertical ?
+                    `Median offset ${formatLength(median(horizontal), metric)} horizontal, ${formatLength(median(heights.map(Math.abs)), metric)} vertical` :
+                    `Median offset ${formatLength(median(horizontal), metric)}`);
+                lines.push(`Mean shift ${formatNumber(mean.x, 2)} E, ${formatNumber(mean.y, 2)} N${vertical ? `, ${formatNumber(meanUp, 2)} up` : ''}`);
+                if (withHeight.length < found.length) {
+                    lines.push(`${found.length - withHeight.length} without GPS altitude, compared on the ground`);
+                }
+            }
+
+            if (reading && reading.done < reading.total) {
+                lines.push(`Reading photo GPS ${reading.done} / ${reading.total}`);
+            }
+
+            dom.gpsTrackText.textContent = lines.join('\n');
+        };
+
+        const rebuild = () => {
+            this.samples = samples.filter(Boolean);
+
+            markerLines = [];
+            trackLines = [];
+            offsetLines = [];
+            offsetLineColors = [];
+
+            const half = markerSize * 0.5;
+            let previous: { flight: number, point: Vec3 } | null = null;
+
+            this.samples.forEach((sample) => {
+                const { flight, position: camera } = frames[sample.index];
+                const { offset } = sample;
+
+                // on the ground only, the GPS position is moved to the camera's height
+                const point = this.horizontal ?
+                    geo.enuVectorToScene(tmpEnu.set(offset.x, offset.y, 0), new Vec3()).add(camera) :
+                    sample.position;
+
+                markerLines.push(
+                    point.x - half, point.y, point.z, point.x + half, point.y, point.z,
+                    point.x, point.y - half, point.z, point.x, point.y + half, point.z,
+                    point.x, point.y, point.z - half, point.x, point.y, point.z + half
+                );
+
+                // the track connects consecutive photos of the same flight
+                if (previous?.flight === flight) {
+                    trackLines.push(previous.point.x, previous.point.y, previous.point.z, point.x, point.y, point.z);
+                }
+
+                const color = offsetColor(this.horizontal || !sample.hasHeight ? Math.hypot(offset.x, offset.y) : offset.length());
+                offsetLines.push(camera.x, camera.y, camera.z, point.x, point.y, point.z);
+                offsetLineColors.push(...color, ...color);
+
+                previous = { flight, point };
+            });
+
+            updateText();
+        };
+
+        // photos without GPS in their imdat record are read for their exif while the panel is open,
+        // the smallest tier first, sampling the capture evenly when there are too many
+        let queue: number[] | null = null;
+        let active = 0;
+
+        const readExif = () => {
+            if (!queue) {
+                const missing = frames.map((_, index) => index).filter(index => !samples[index] && frames[index].frame.file_path);
+                const step = Math.max(1, missing.length / maxExifReads);
+                queue = [];
+                for (let i = 0; i < missing.length; i += step) {
+                    queue.push(missing[Math.floor(i)]);
+                }
+                reading = { done: 0, total: queue.length };
+                updateText();
+            }
+
+            // stops once the panel closes, carrying on when it opens again
+            const next = (): Promise<void> => {
+                const index = state.gpsTrackVisible ? queue.shift() : undefined;
+                if (index === undefined) {
+                    active--;
+                    return Promise.resolve();
+                }
+                const { frame, flight } = frames[index];
+                const urls = framePaths.urls({ filePath: frame.file_path, index, colmapImId: frame.colmap_im_id, flight }, 'thumb');
+                return readJpegMetadata(urls, imageCache)
+                .catch((): Record<string, any> | null => null)
+                .then((record) => {
+                    reading.done++;
+                    setSample(index, record);
+                    invalidate();
+                    return next();
+                });
+            };
+
+            while (active < maxReads && queue.length > 0) {
+                active++;
+                next();
+            }
+        };
+
+        dom.gpsTrackHorizontal.addEventListener('click', () => {
+            this.horizontal = !this.horizontal;
+            dom.gpsTrackHorizontal.classList.toggle('active', this.horizontal);
+            invalidate();
+        });
+
+        dom.gpsTrackClose.addEventListener('click', () => {
+            state.gpsTrackVisible = false;
+        });
+
+        dom.gpsTrackPanel.addEventListener('pointerdown', event => event.stopPropagation());
+
+        events.on('gpsTrackVisible:changed', (value: boolean) => {
+            dom.gpsTrackPanel.classList.toggle('hidden', !value);
+            if (value && samples.some(sample => !sample)) {
+                readExif();
+            }
+            invalidate();
+        });
+
+        app.on('prerender', () => {
+            if (!state.gpsTrackVisible) {
+                return;
+            }
+            if (dirty) {
+                dirty = false;
+                rebuild();
+            }
+            if (offsetLines.length > 0) {
+                app.drawLineArrays(offsetLines, offsetLineColors, true, worldLayer);
+            }
+            if (trackLines.length > 0) {
+                app.drawLineArrays(trackLines, trackColor, true, worldLayer);
+            }
+            if (markerLines.length > 0) {
+                app.drawLineArrays(markerLines, trackColor, true, worldLayer);
+            }
+        });
+    }
+}
+
+export { GpsTrack };
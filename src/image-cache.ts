@@ -0,0 +1,240 @@
+import { setFrameImageSrc } from './frame-paths';
+
+// decoded bytes kept by default, roughly a dozen full resolution photos
+const defaultBudget = 512 * 1024 * 1024;
+
+// prefetches in flight at once
+const maxConcurrent = 4;
+
+type CacheEntry = {
+    url: string;
+    blob: Blob;                                 // the encoded photo, also behind objectUrl
+    objectUrl: string;
+    image: HTMLImageElement;                    // off-DOM image holding the decoded photo
+    bytes: number;
+    users: number;                              // image elements showing the object url
+    evicted: boolean;
+};
+
+/**
+ * Least recently used cache of fetched frame photos. Photos are held as blobs with an object url
+ * and decoded off the main thread into an off-DOM image, so an image element shown the object url
+ * reuses the decoded photo and swaps instantly, without going back to the network. Entries are
+ * evicted once their decoded size exceeds the memory budget, and the object url of an evicted
+ * entry is revoked once no image element shows it.
+ */
+class ImageCache {
+    budget: number;
+
+    // entries in least to most recently used order
+    entries = new Map<string, CacheEntry>();
+
+    bytes = 0;
+
+    // fetches in flight by url
+    pending = new Map<string, Promise<CacheEntry | null>>();
+
+    // urls waiting to be prefetched, the most wanted first
+    queue: string[][] = [];
+
+    // the latest request of each image element, so older ones finishing late are ignored
+    requests = new WeakMap<HTMLImageElement, string[]>();
+
+    // the entry each image element shows
+    shown = new WeakMap<HTMLImageElement, CacheEntry>();
+
+    /**
+     * @param budget - Decoded bytes to keep before evicting.
+     */
+    constructor(budget = defaultBudget) {
+        this.budget = budget;
+    }
+
+    /**
+     * Returns the cached entry of the first url in the list that has one.
+     *
+     * @param urls - The urls in order of preference.
+     * @returns - The entry, or null when none is cached.
+     */
+    get(urls: string[]) {
+        for (const url of urls) {
+            const entry = this.entries.get(url);
+            if (entry) {
+                // move to most recently used
+                this.entries.delete(url);
+                this.entries.set(url, entry);
+                return entry;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Fetches and decodes a photo, trying the urls in order until one succeeds.
+     *
+     * @param urls - The urls in order of preference.
+     * @returns - The entry, or null when none of the urls could be fetched.
+     */
+    fetch(urls: string[]): Promise<CacheEntry | null> {
+        const cached = this.get(urls);
+        if (cached) {
+            return Promise.resolve(cached);
+        }
+
+        // try the urls one after another
+        const next = async (i: number): Promise<CacheEntry | null> => {
+            const url = urls[i];
+            if (url === undefined) {
+                return null;
+            }
+
+            let pending = this.pending.get(url);
+            if (!pending) {
+                pending = this.fetchUrl(url);
+                this.pending.set(url, pending);
+                pending.finally(() => this.pending.delete(url));
+            }
+
+            return (await pending) ?? next(i + 1);
+        };
+        return next(0);
+    }
+
+    async fetchUrl(url: string): Promise<CacheEntry | null> {
+        try {
+            const response = await fetch(url);
+            if (!response.ok) {
+                return null;
+            }
+            const blob = await response.blob();
+            const objectUrl = URL.createObjectURL(blob);
+            const image = new Image();
+            image.src = objectUrl;
+            try {
+                await image.decode();
+            } catch (err) {
+                // not an image, such as a server answering missing files with an html page
+                URL.revokeObjectURL(objectUrl);
+                return null;
+            }
+            const entry = {
+                url,
+                blob,
+                objectUrl,
+                image,
+                bytes: image.naturalWidth * image.naturalHeight * 4 + blob.size,
+                users: 0,
+                evicted: false
+            };
+            this.insert(entry);
+            return entry;
+        } catch (err) {
+            // a cross-origin url without cors headers
+            return null;
+        }
+    }
+
+    insert(entry: CacheEntry) {
+        this.remove(entry.url);
+        this.entries.set(entry.url, entry);
+        this.bytes += entry.bytes;
+
+        // evict least recently used, always keeping the newest
+        for (const [url] of this.entries) {
+            if (this.bytes <= this.budget || url === entry.url) {
+                break;
+            }
+            this.remove(url);
+        }
+    }
+
+    remove(url: string) {
+        const entry = this.entries.get(url);
+        if (entry) {
+            this.entries.delete(url);
+            this.bytes -= entry.bytes;
+            entry.evicted = true;
+
+            // let the decoded photo go, image elements showing it hold their own reference
+            entry.image.removeAttribute('src');
+            if (entry.users === 0) {
+                URL.revokeObjectURL(entry.objectUrl);
+            }
+        }
+    }
+
+    // point an image element at an entry, or at nothing cached, releasing the entry it showed
+    show(img: HTMLImageElement, entry: CacheEntry | null) {
+        const previous = this.shown.get(img);
+        if (previous === entry) {
+            return;
+        }
+        if (previous) {
+            this.shown.delete(img);
+            if (--previous.users === 0 && previous.evicted) {
+                URL.revokeObjectURL(previous.objectUrl);
+            }
+        }
+        if (entry) {
+            entry.users++;
+            this.shown.set(img, entry);
+            img.src = entry.objectUrl;
+        }
+    }
+
+    /**
+     * Shows a photo in an image element, immediately when it is cached. Otherwise the photo is
+     * fetched into the cache, falling back to loading the urls directly when fetching fails.
+     *
+     * @param img - The image element.
+     * @param urls - The urls in order of preference.
+     */
+    load(img: HTMLImageElement, urls: string[]) {
+        this.requests.set(img, urls);
+
+        const cached = this.get(urls);
+        if (cached) {
+            this.show(img, cached);
+            return;
+        }
+
+        this.fetch(urls).then((entry) => {
+            if (this.requests.get(img) !== urls) {
+                return;
+            }
+            this.show(img, entry);
+            if (!entry) {
+                setFrameImageSrc(img, urls);
+            }
+        });
+    }
+
+    /**
+     * Stops a pending load from updating an image element and releases the photo it shows, call
+     * once the element no longer shows it.
+     *
+     * @param img - The image element.
+     */
+    cancel(img: HTMLImageElement) {
+        this.requests.delete(img);
+        this.show(img, null);
+    }
+
+    /**
+     * Replaces the photos waiting to be prefetched. Photos already cached or in flight are skipped.
+     *
+     * @param list - The url lists of the photos, the most wanted first.
+     */
+    prefetch(list: string[][]) {
+        this.queue = list.filter(urls => !urls.some(url => this.entries.has(url) || this.pending.has(url)));
+        this.pump();
+    }
+
+    pump() {
+        while (this.pending.size < maxConcurrent && this.queue.length > 0) {
+            this.fetch(this.queue.shift()).finally(() => this.pump());
+        }
+    }
+}
+
+export { ImageCache };
@@ -15,7 +15,12 @@ import {
 } from 'playcanvas';
 
 import { App } from './app';
+import { loadColmapTransforms } from './colmap';
 import { observe } from './core/observe';
+import { normalizeFlights } from './flights';
+import { FramePaths } from './frame-paths';
+import { GeoTransform } from './geo/geo-transform';
+import { ImageCache } from './image-cache';
 import { importSettings } from './settings';
 import type { Config, Global } from './types';
 import { initPoster, initUI } from './ui';
@@ -208,9 +213,17 @@ const main = async (
     const geoMode = isConfig(maybeConfig) || !isConfig(geoXformOrConfig);
     const config = (geoMode ? maybeConfig : geoXformOrConfig) as Config;
     const geoXformJson = geoMode ? (geoXformOrConfig ?? {}) : {};
-    const transformsJson = geoMode ? (transformsOrConfig ?? { frames: [] }) : { frames: [] };
+    const defaultTransformsJson = geoMode ? (transformsOrConfig ?? { frames: [] }) : { frames: [] };
     const imdatJson = geoMode ? (maybeImdat ?? null) : (transformsOrConfig ?? null);
 
+    // a COLMAP sparse model replaces transforms.json when requested
+    const transformsJson = config?.colmapUrl ?
+        await loadColmapTransforms(config.colmapUrl).catch((err) => {
+            console.warn(`Failed to load COLMAP model ${config.colmapUrl}`, err);
+            return defaultTransformsJson;
+        }) :
+        defaultTransformsJson;
+
     const { app, camera } = await createApp(canvas, config);
 
     // create events
@@ -230,15 +243,31 @@ const main = async (
         hasAR: false,
         hasVR: false,
         isFullscreen: false,
-        controlsHidden: false
+        controlsHidden: false,
+        measureMode: false,
+        photoPickMode: null,
+        frustumsVisible: false,
+        flightPathVisible: false,
+        gpsTrackVisible: false,
+        filmstripVisible: false,
+        photoOverlay: false,
+        frameFilter: config.frameFilter ?? '',
+        frameFilterVisible: false,
+        frameSearchVisible: false
     });
 
+    const settings = importSettings(settingsJson);
+
     const global: Global = {
         app,
-        settings: importSettings(settingsJson),
+        settings,
         geoXform: geoXformJson,
+        geo: GeoTransform.fromJson(geoXformJson),
         transforms: transformsJson,
         imdat: imdatJson,
+        flights: normalizeFlights(transformsJson, imdatJson),
+        framePaths: new FramePaths(settings.imagePaths, config.imagePaths),
+        imageCache: new ImageCache(),
         config,
         state,
         events,
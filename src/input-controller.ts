@@ -76,6 +76,44 @@ const screenToWorld = (camera: CameraComponent, dx: number, dy: number, dz: numb
     return out;
 };
 
+// click detection thresholds
+const clickMaxMove = 5;
+const clickMaxDurationMs = 400;
+
+/**
+ * Calls back on primary button clicks on an element, ignoring the drags that orbit the camera.
+ *
+ * @param element - The element, usually the canvas.
+ * @param callback - Called with the pointerup event of each click.
+ */
+const addClickListener = (element: HTMLElement, callback: (event: PointerEvent) => void) => {
+    const down = { id: -1, x: 0, y: 0, time: 0 };
+
+    element.addEventListener('pointerdown', (event: PointerEvent) => {
+        if (event.isPrimary && event.button === 0) {
+            down.id = event.pointerId;
+            down.x = event.clientX;
+            down.y = event.clientY;
+            down.time = performance.now();
+        }
+    });
+
+    element.addEventListener('pointerup', (event: PointerEvent) => {
+        if (event.pointerId !== down.id) {
+            return;
+        }
+        down.id = -1;
+
+        if (performance.now() - down.time > clickMaxDurationMs ||
+            Math.abs(event.clientX - down.x) > clickMaxMove ||
+            Math.abs(event.clientY - down.y) > clickMaxMove) {
+            return;
+        }
+
+        callback(event);
+    });
+};
+
 // patch keydown and keyup to ignore events with meta key otherwise
 // keys can get stuck on macOS.
 const patchKeyboardMeta = (desktopInput: any) => {
@@ -125,6 +163,9 @@ class InputController {
 
     private _touchJoystickY: number = 0; // negative = forward, positive = backward
 
+    // pick the world position under the normalized screen coordinate, sharing one depth picker
+    pick: (x: number, y: number) => Promise<Vec3 | null>;
+
     // this gets overridden by the viewer based on scene size
     moveSpeed: number = 4;
 
@@ -182,13 +223,21 @@ class InputController {
 
         // Calculate pick location on double click
         let picker: Picker | null = null;
+        this.pick = (x: number, y: number) => {
+            if (!picker) {
+                picker = new Picker(app, camera);
+            }
+            return picker.pick(x, y);
+        };
+
         events.on('inputEvent', async (eventName, event) => {
             switch (eventName) {
                 case 'dblclick': {
-                    if (!picker) {
-                        picker = new Picker(app, camera);
+                    // double clicks place measurement points rather than re-aiming the camera
+                    if (state.measureMode) {
+                        break;
                     }
-                    const result = await picker.pick(event.offsetX / canvas.clientWidth, event.offsetY / canvas.clientHeight);
+                    const result = await this.pick(event.offsetX / canvas.clientWidth, event.offsetY / canvas.clientHeight);
                     if (result) {
                         events.fire('pick', result);
                     }
@@ -228,6 +277,10 @@ class InputController {
                     case 'P':
                         events.fire('inputEvent', 'gotoNearestTransformFrame', event);
                         break;
+                    case 'm':
+                    case 'M':
+                        events.fire('inputEvent', 'toggleMeasure', event);
+                        break;
                     case ' ':
                         events.fire('inputEvent', 'playPause', event);
                         break;
@@ -331,4 +384,4 @@ class InputController {
     }
 }
 
-export { InputController };
+export { InputController, addClickListener };
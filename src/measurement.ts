@@ -0,0 +1,294 @@
+import { Color, Vec3 } from 'playcanvas';
+
+import { getElementsById } from './dom';
+import { formatArea, formatLength, formatSlope } from './geo/format';
+import type { GeoTransform } from './geo/geo-transform';
+import { addClickListener, type InputController } from './input-controller';
+import type { Global } from './types';
+
+type MeasureMode = 'line' | 'area';
+
+type MeasurementSegment = {
+    length: number;
+    horizontal: number;
+    vertical: number;                           // signed, positive is up
+    slope: number;                              // degrees above the horizontal
+};
+
+type MeasurementResult = {
+    mode: MeasureMode;
+    points: Vec3[];
+    metric: boolean;                            // lengths are metres, otherwise scene units
+    segments: MeasurementSegment[];
+    length: number;
+    horizontalLength: number;
+    area: number | null;                        // area of the best-fit plane (Newell)
+    horizontalArea: number | null;              // area projected onto the horizontal plane
+};
+
+const lineColor = new Color(1, 0.4, 0);
+const vertexColor = new Color(1, 1, 1);
+
+const tmpEnu = new Vec3();
+const tmpDelta = new Vec3();
+const tmpScreen = new Vec3();
+const tmpView = new Vec3();
+
+// clicks this soon after the last one are the second click of a double click
+const repeatClickMs = 300;
+
+// calculate lengths, components and areas of the measured points in geo-transform units
+const computeMeasurement = (points: Vec3[], mode: MeasureMode, geo: GeoTransform): MeasurementResult => {
+    const closed = mode === 'area' && points.length >= 3;
+    const segmentCount = closed ? points.length : Math.max(0, points.length - 1);
+
+    const segments: MeasurementSegment[] = [];
+    for (let i = 0; i < segmentCount; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        const enu = geo.sceneVectorToEnu(tmpDelta.sub2(b, a), tmpEnu);
+        const horizontal = Math.hypot(enu.x, enu.y);
+        segments.push({
+            length: enu.length(),
+            horizontal,
+            vertical: enu.z,
+            slope: Math.atan2(enu.z, horizontal) * 180 / Math.PI
+        });
+    }
+
+    let area: number | null = null;
+    let horizontalArea: number | null = null;
+    if (closed) {
+        // Newell's method on east/north/up positions relative to the first vertex
+        const enu = points.map(p => geo.sceneVectorToEnu(tmpDelta.sub2(p, points[0]), new Vec3()));
+        const normal = new Vec3();
+        for (let i = 0; i < enu.length; i++) {
+            const a = enu[i];
+            const b = enu[(i + 1) % enu.length];
+            normal.x += (a.y - b.y) * (a.z + b.z);
+            normal.y += (a.z - b.z) * (a.x + b.x);
+            normal.z += (a.x - b.x) * (a.y + b.y);
+        }
+        area = normal.length() * 0.5;
+        horizontalArea = Math.abs(normal.z) * 0.5;
+    }
+
+    return {
+        mode,
+        points: points.map(p => p.clone()),
+        metric: geo.metric,
+        segments,
+        length: segments.reduce((acc, s) => acc + s.length, 0),
+        horizontalLength: segments.reduce((acc, s) => acc + s.horizontal, 0),
+        area,
+        horizontalArea
+    };
+};
+
+const formatMeasurementLines = (result: MeasurementResult) => {
+    const { segments, metric } = result;
+    const lines: string[] = [];
+
+    if (segments.length === 0) {
+        lines.push(result.points.length === 0 ? 'Click the scene to place points' : 'Click to place the next point');
+        return lines;
+    }
+
+    segments.forEach((segment, i) => {
+        lines.push(`${i + 1}: ${formatLength(segment.length, metric)}  H ${formatLength(segment.horizontal, metric)}  V ${formatLength(segment.vertical, metric)}  ${formatSlope(segment.slope)}`);
+    });
+
+    lines.push(`${result.mode === 'area' ? 'Perimeter' : 'Total'}: ${formatLength(result.length, metric)}  (H ${formatLength(result.horizontalLength, metric)})`);
+
+    if (result.area !== null) {
+        lines.push(`Area: ${formatArea(result.area, metric)}`);
+        lines.push(`Horizontal area: ${formatArea(result.horizontalArea, metric)}`);
+    }
+
+    return lines;
+};
+
+/**
+ * Interactive point-to-point, polyline and area measurement. While measure mode is active each
+ * click on the canvas places a vertex on the splat surface using the depth picker.
+ */
+class Measurement {
+    mode: MeasureMode = 'line';
+
+    points: Vec3[] = [];
+
+    result: MeasurementResult;
+
+    constructor(global: Global, inputController: InputController) {
+        const { app, camera, events, geo, state } = global;
+        const canvas = app.graphicsDevice.canvas as HTMLCanvasElement;
+
+        const dom = getElementsById([
+            'measurePanel', 'measureText', 'measureLine', 'measureArea', 'measureUndo', 'measureClear', 'measureClose'
+        ]);
+
+        // segment and area labels positioned over the canvas
+        const labelParent = document.createElement('div');
+        labelParent.id = 'measureLabels';
+        document.querySelector('#ui').appendChild(labelParent);
+        const labels: { dom: HTMLDivElement, position: Vec3 }[] = [];
+
+        const setLabels = (items: { text: string, position: Vec3 }[]) => {
+            while (labels.length > items.length) {
+                labels.pop().dom.remove();
+            }
+            while (labels.length < items.length) {
+                const label = document.createElement('div');
+                label.classList.add('measureLabel');
+                labelParent.appendChild(label);
+                labels.push({ dom: label, position: new Vec3() });
+            }
+            items.forEach((item, i) => {
+                labels[i].dom.textContent = item.text;
+                labels[i].position.copy(item.position);
+            });
+        };
+
+        const update = () => {
+            this.result = computeMeasurement(this.points, this.mode, geo);
+
+            const { points, result } = this;
+            const items = result.segments.map((segment, i) => ({
+                text: formatLength(segment.length, result.metric),
+                position: new Vec3().lerp(points[i], points[(i + 1) % points.length], 0.5)
+            }));
+            if (result.area !== null) {
+                const centroid = points.reduce((acc, p) => acc.add(p), new Vec3()).mulScalar(1 / points.length);
+                items.push({ text: formatArea(result.area, result.metric), position: centroid });
+            }
+            setLabels(items);
+
+            // the measurement stays in the scene after measure mode is switched off
+            labelParent.classList.toggle('hidden', !state.measureMode && points.length === 0);
+
+            dom.measureText.textContent = formatMeasurementLines(result).join('\n');
+            dom.measureLine.classList.toggle('active', this.mode === 'line');
+            dom.measureArea.classList.toggle('active', this.mode === 'area');
+
+            app.renderNextFrame = true;
+            events.fire('measurement:changed', result);
+        };
+
+        const setMode = (mode: MeasureMode) => {
+            this.mode = mode;
+            update();
+        };
+
+        const clear = () => {
+            this.points = [];
+            update();
+        };
+
+        // place vertices on click, ignoring drags (camera orbit) and the second click of a double click
+        const lastClick = { x: 0, y: 0, time: 0 };
+
+        addClickListener(canvas, async (event) => {
+            if (!state.measureMode) {
+                return;
+            }
+
+            const now = performance.now();
+            const repeat = now - lastClick.time < repeatClickMs &&
+                Math.abs(event.clientX - lastClick.x) < 8 &&
+                Math.abs(event.clientY - lastClick.y) < 8;
+            lastClick.x = event.clientX;
+            lastClick.y = event.clientY;
+            lastClick.time = repeat ? 0 : now;
+            if (repeat) {
+                return;
+            }
+
+            const position = await inputController.pick(event.offsetX / canvas.clientWidth, event.offsetY / canvas.clientHeight);
+            if (position && state.measureMode) {
+                this.points.push(position);
+                update();
+            }
+        });
+
+        // draw segments and vertex markers
+        app.on('prerender', () => {
+            const { points } = this;
+            if (!state.measureMode && points.length === 0) {
+                return;
+            }
+
+            const cameraPos = camera.getPosition();
+            const lines: Vec3[] = [];
+            for (let i = 0; i < this.result.segments.length; i++) {
+                lines.push(points[i], points[(i + 1) % points.length]);
+            }
+            if (lines.length > 0) {
+                app.drawLines(lines, lineColor, false);
+            }
+
+            const markers: Vec3[] = [];
+            points.forEach((p) => {
+                const size = p.distance(cameraPos) * 0.01;
+                markers.push(
+                    new Vec3(p.x - size, p.y, p.z), new Vec3(p.x + size, p.y, p.z),
+                    new Vec3(p.x, p.y - size, p.z), new Vec3(p.x, p.y + size, p.z),
+                    new Vec3(p.x, p.y, p.z - size), new Vec3(p.x, p.y, p.z + size)
+                );
+            });
+            if (markers.length > 0) {
+                app.drawLines(markers, vertexColor, false);
+            }
+
+            const { viewMatrix } = camera.camera;
+            labels.forEach(({ dom, position }) => {
+                viewMatrix.transformPoint(position, tmpView);
+                if (tmpView.z >= 0) {
+                    dom.style.display = 'none';
+                    return;
+                }
+                camera.camera.worldToScreen(position, tmpScreen);
+                dom.style.display = 'block';
+                dom.style.left = `${tmpScreen.x}px`;
+                dom.style.top = `${tmpScreen.y}px`;
+            });
+        });
+
+        // ui
+        const stop = (event: Event) => event.stopPropagation();
+        dom.measurePanel.addEventListener('pointerdown', stop);
+
+        dom.measureLine.addEventListener('click', () => setMode('line'));
+        dom.measureArea.addEventListener('click', () => setMode('area'));
+        dom.measureUndo.addEventListener('click', () => {
+            this.points.pop();
+            update();
+        });
+        dom.measureClear.addEventListener('click', clear);
+        dom.measureClose.addEventListener('click', () => {
+            state.measureMode = false;
+        });
+
+        events.on('measureMode:changed', (value: boolean) => {
+            dom.measurePanel.classList.toggle('hidden', !value);
+            labelParent.classList.toggle('hidden', !value && this.points.length === 0);
+            canvas.classList.toggle('measuring', value);
+        });
+
+        events.on('inputEvent', (eventName: string) => {
+            switch (eventName) {
+                case 'toggleMeasure':
+                    state.measureMode = !state.measureMode;
+                    break;
+                case 'cancel':
+                    state.measureMode = false;
+                    break;
+            }
+        });
+
+        update();
+    }
+}
+
+export type { MeasureMode, MeasurementResult, MeasurementSegment };
+
+export { Measurement };
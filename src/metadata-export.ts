@@ -0,0 +1,183 @@
+import { Vec3 } from 'playcanvas';
+
+import type { CameraManager, PreparedTransformFrame } from './camera-manager';
+import { getElementsById } from './dom';
+import type { Flight } from './flights';
+import { findPhotoRecord, getPhotoRecords } from './frame-metadata';
+import type { GeoTransform } from './geo/geo-transform';
+import { download } from './scene-export';
+import type { Global } from './types';
+
+// which frames are exported
+type ExportScope = 'selected' | 'filtered' | 'all';
+
+type ExportRow = Record<string, any>;
+
+const exportName = 'frame-metadata';
+
+const tmpEnu = new Vec3();
+
+const getHeader = (imdat: any): Record<string, any> => {
+    return (imdat && typeof imdat === 'object' && typeof imdat.header?.common === 'object') ? imdat.header.common : {};
+};
+
+/**
+ * Joins the metadata of transform frames into one flat row per frame: the frame's identity, its
+ * solved pose in scene space, its world and WGS84 coordinates and heading, then the imdat header
+ * and photo record fields, the photo record winning where both have a key.
+ *
+ * @param frames - The prepared transform frames.
+ * @param indices - The indices of the frames to export.
+ * @param flights - The flights.
+ * @param geo - The scene geo transform.
+ * @returns - The rows, in the order of the indices.
+ */
+const createExportRows = (frames: PreparedTransformFrame[], indices: number[], flights: Flight[], geo: GeoTransform): ExportRow[] => {
+    const headers = flights.map(flight => getHeader(flight.imdat));
+    const photos = flights.map(flight => getPhotoRecords(flight.imdat));
+
+    return indices.map((index) => {
+        const { frame, flight, position, forward, fov } = frames[index];
+        const world = geo.sceneToWorld(position);
+        const geodetic = geo.sceneToGeodetic(position);
+        const enu = geo.sceneVectorToEnu(forward, tmpEnu).normalize();
+
+        const row: ExportRow = {
+            frame: index + 1,
+            flight: flight + 1,
+            flightName: flights[flight]?.name ?? null,
+            filePath: frame.file_path ?? null,
+            colmapImId: frame.colmap_im_id ?? null,
+            x: position.x,
+            y: position.y,
+            z: position.z,
+            forwardX: forward.x,
+            forwardY: forward.y,
+            forwardZ: forward.z,
+            fov,
+            crs: geo.crsName,
+            worldX: world.x,
+            worldY: world.y,
+            worldZ: world.z,
+            latitude: geodetic?.lat ?? null,
+            longitude: geodetic?.lon ?? null,
+            height: geodetic?.height ?? null,
+            // view direction, clockwise from north and up from the horizon
+            heading: (Math.atan2(enu.x, enu.y) * 180 / Math.PI + 360) % 360,
+            pitch: Math.asin(Math.max(-1, Math.min(1, enu.z))) * 180 / Math.PI
+        };
+
+        // metadata keys are namespaced, the pose columns win should one clash
+        const record = findPhotoRecord(photos[flight], frame.file_path, frame.colmap_im_id);
+        Object.entries({ ...headers[flight], ...record }).forEach(([key, value]) => {
+            if (!(key in row)) {
+                row[key] = value;
+            }
+        });
+
+        return row;
+    });
+};
+
+const csvField = (value: any) => {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    const text = typeof value === 'object' ? JSON.stringify(value) : `${value}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes rows as CSV, with the union of their keys as columns in the order they first appear.
+ *
+ * @param rows - The rows.
+ * @returns - The CSV text.
+ */
+const toCsv = (rows: ExportRow[]) => {
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+    return [
+        columns.map(csvField).join(','),
+        ...rows.map(row => columns.map(column => csvField(row[column])).join(','))
+    ].join('\r\n');
+};
+
+/**
+ * Exports the metadata of the selected frame, the frames passing the frame filter or all frames
+ * to CSV or JSON, from the settings panel.
+ */
+class MetadataExport {
+    scope: ExportScope = 'all';
+
+    constructor(global: Global, cameraManager: CameraManager) {
+        const { events, flights, geo } = global;
+        const frames = cameraManager.transformFrames;
+
+        const dom = getElementsById(['metadataExportDivider', 'metadataScopeRow', 'metadataScopeSelected', 'metadataScopeFiltered', 'metadataScopeAll', 'metadataExportRow', 'metadataExportCsv', 'metadataExportJson']);
+
+        if (frames.length === 0) {
+            return;
+        }
+
+        ['metadataExportDivider', 'metadataScopeRow', 'metadataExportRow'].forEach((id) => {
+            dom[id].classList.remove('hidden');
+        });
+
+        let selectedIndex = -1;
+
+        const scopeButtons: Record<ExportScope, HTMLElement> = {
+            selected: dom.metadataScopeSelected,
+            filtered: dom.metadataScopeFiltered,
+            all: dom.metadataScopeAll
+        };
+
+        const indices = () => {
+            switch (this.scope) {
+                case 'selected':
+                    return selectedIndex >= 0 && selectedIndex < frames.length ? [selectedIndex] : [];
+                case 'filtered':
+                    return cameraManager.activeFrames.slice();
+                default:
+                    return frames.map((_, index) => index);
+            }
+        };
+
+        const updateScope = () => {
+            (Object.keys(scopeButtons) as ExportScope[]).forEach((scope) => {
+                scopeButtons[scope].classList.toggle('active', scope === this.scope);
+            });
+            const count = indices().length;
+            [dom.metadataExportCsv, dom.metadataExportJson].forEach((button) => {
+                (button as HTMLButtonElement).disabled = count === 0;
+                button.title = count === 1 ? 'Export 1 frame' : `Export ${count} frames`;
+            });
+        };
+
+        (Object.keys(scopeButtons) as ExportScope[]).forEach((scope) => {
+            scopeButtons[scope].addEventListener('click', () => {
+                this.scope = scope;
+                updateScope();
+            });
+        });
+
+        dom.metadataExportCsv.addEventListener('click', () => {
+            const rows = createExportRows(frames, indices(), flights, geo);
+            download(toCsv(rows), `${exportName}.csv`, 'text/csv');
+        });
+
+        dom.metadataExportJson.addEventListener('click', () => {
+            const rows = createExportRows(frames, indices(), flights, geo);
+            download(JSON.stringify(rows, null, 2), `${exportName}.json`, 'application/json');
+        });
+
+        events.on('transformFrame:selected', (selection) => {
+            selectedIndex = selection?.index ?? -1;
+            updateScope();
+        });
+
+        events.on('transformFrames:filtered', updateScope);
+
+        updateScope();
+    }
+}
+
+export { MetadataExport, createExportRows, toCsv };
@@ -0,0 +1,284 @@
+import { parseCaptureTime, toNumber } from './frame-metadata';
+import { formatLatLon, formatNumber } from './geo/format';
+
+// how a field's value is shown
+type FieldKind = 'text' | 'altitude' | 'distance' | 'angle' | 'latitude' | 'longitude' | 'time' | 'speed' |
+    'focalLength' | 'exposure' | 'aperture' | 'pixels';
+
+type FieldSchema = {
+    label: string;
+    kind: FieldKind;
+    description?: string;
+};
+
+// the records shown, each split into sections by key namespace
+type MetadataSource = {
+    title: string;
+    record: Record<string, any> | null;
+};
+
+const feetPerMetre = 3.28084;
+
+// display names of the key namespaces, unknown namespaces are shown as they are
+const namespaceLabels: Record<string, string> = {
+    geoswarm: 'Mission',
+    dc: 'Dublin Core',
+    exif: 'EXIF',
+    tiff: 'TIFF',
+    gps: 'GPS',
+    xmp: 'XMP',
+    'drone-dji': 'DJI',
+    '': 'General'
+};
+
+// known fields by their key without namespace, lowercased
+const fieldSchemas: Record<string, FieldSchema> = {
+    identifier: { label: 'Flight ID', kind: 'text', description: 'Identifier of the flight the photos were captured on' },
+    title: { label: 'Title', kind: 'text' },
+    date: { label: 'Date', kind: 'text', description: 'Day the flight was captured' },
+    creator: { label: 'Creator', kind: 'text', description: 'Pilot or organisation that captured the photos' },
+    missionid: { label: 'Mission ID', kind: 'text', description: 'Identifier of the planned mission the flight belongs to' },
+    customer: { label: 'Customer', kind: 'text' },
+    control: { label: 'Control', kind: 'text', description: 'Ground control used to georeference the flight' },
+    datetimecapturestart: { label: 'Capture start', kind: 'time', description: 'Time the first photo of the flight was taken' },
+    datetimecaptureend: { label: 'Capture end', kind: 'time', description: 'Time the last photo of the flight was taken' },
+    datetimeoriginal: { label: 'Captured', kind: 'time', description: 'Time the photo was taken' },
+    createdate: { label: 'Created', kind: 'time' },
+    modifydate: { label: 'Modified', kind: 'time' },
+    gpslatitude: { label: 'Latitude', kind: 'latitude' },
+    gpslongitude: { label: 'Longitude', kind: 'longitude' },
+    latitude: { label: 'Latitude', kind: 'latitude' },
+    longitude: { label: 'Longitude', kind: 'longitude' },
+    gpsaltitude: { label: 'GPS altitude', kind: 'altitude', description: 'Altitude from the GPS receiver, usually above mean sea level' },
+    absolutealtitude: { label: 'Absolute altitude', kind: 'altitude', description: 'Altitude above mean sea level' },
+    relativealtitude: { label: 'Relative altitude', kind: 'altitude', description: 'Altitude above the take-off point' },
+    altitude: { label: 'Altitude', kind: 'altitude' },
+    gimbalpitchdegree: { label: 'Gimbal pitch', kind: 'angle', description: 'Camera tilt, -90° looks straight down' },
+    gimbalyawdegree: { label: 'Gimbal yaw', kind: 'angle', description: 'Camera heading, clockwise from north' },
+    gimbalrolldegree: { label: 'Gimbal roll', kind: 'angle' },
+    flightpitchdegree: { label: 'Aircraft pitch', kind: 'angle' },
+    flightyawdegree: { label: 'Aircraft yaw', kind: 'angle', description: 'Aircraft heading, clockwise from north' },
+    flightrolldegree: { label: 'Aircraft roll', kind: 'angle' },
+    flightxspeed: { label: 'Speed X', kind: 'speed' },
+    flightyspeed: { label: 'Speed Y', kind: 'speed' },
+    flightzspeed: { label: 'Speed Z', kind: 'speed' },
+    make: { label: 'Make', kind: 'text' },
+    model: { label: 'Camera', kind: 'text' },
+    lensmodel: { label: 'Lens', kind: 'text' },
+    focallength: { label: 'Focal length', kind: 'focalLength' },
+    focallengthin35mmformat: { label: 'Focal length (35 mm)', kind: 'focalLength', description: 'Focal length of the equivalent full frame lens' },
+    exposuretime: { label: 'Shutter', kind: 'exposure' },
+    fnumber: { label: 'Aperture', kind: 'aperture' },
+    isospeedratings: { label: 'ISO', kind: 'text' },
+    iso: { label: 'ISO', kind: 'text' },
+    imagewidth: { label: 'Width', kind: 'pixels' },
+    imageheight: { label: 'Height', kind: 'pixels' },
+    exifimagewidth: { label: 'Width', kind: 'pixels' },
+    exifimageheight: { label: 'Height', kind: 'pixels' },
+    subjectdistance: { label: 'Subject distance', kind: 'distance' }
+};
+
+const splitKey = (key: string) => {
+    const colon = key.lastIndexOf(':');
+    return {
+        namespace: colon >= 0 ? key.slice(0, colon) : '',
+        name: colon >= 0 ? key.slice(colon + 1) : key
+    };
+};
+
+// render a value as recorded, for unknown fields and values the schema can't read
+const formatRaw = (value: any) => {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? `${value}` : '';
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'true' : 'false';
+    }
+    if (typeof value === 'string') {
+        return value;
+    }
+    return JSON.stringify(value);
+};
+
+const formatField = (kind: FieldKind, value: any, metric: boolean) => {
+    if (kind === 'text') {
+        return formatRaw(value);
+    }
+
+    if (kind === 'time') {
+        const time = parseCaptureTime(value);
+        return time === null ? formatRaw(value) : new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'medium' });
+    }
+
+    const number = toNumber(value);
+    if (number === null) {
+        return formatRaw(value);
+    }
+
+    switch (kind) {
+        case 'altitude':
+        case 'distance':
+            return metric ? `${formatNumber(number, 1)} m` : `${formatNumber(number * feetPerMetre, 1)} ft`;
+        case 'speed':
+            return metric ? `${formatNumber(number, 1)} m/s` : `${formatNumber(number * feetPerMetre, 1)} ft/s`;
+        case 'angle':
+            return `${formatNumber(number, 1)}°`;
+        case 'latitude':
+            return formatLatLon(number, 'lat');
+        case 'longitude':
+            return formatLatLon(number, 'lon');
+        case 'focalLength':
+            return `${formatNumber(number, 1)} mm`;
+        case 'exposure':
+            return number > 0 && number < 1 ? `1/${Math.round(1 / number)} s` : `${number} s`;
+        case 'aperture':
+            return `f/${formatNumber(number, 1)}`;
+        case 'pixels':
+            return `${Math.round(number)} px`;
+    }
+};
+
+const copyText = (text: string, button: HTMLElement) => {
+    navigator.clipboard?.writeText(text).then(() => {
+        button.classList.add('copied');
+        setTimeout(() => button.classList.remove('copied'), 1000);
+    }).catch(() => {
+        // clipboard access denied, the text stays selectable
+    });
+};
+
+/**
+ * Renders imdat records as collapsible sections, one per record and key namespace. Known fields
+ * get readable labels, descriptions and units, the rest are shown as recorded. Values can be
+ * copied one by one or as the whole record in JSON.
+ */
+class MetadataPanel {
+    // altitudes, distances and speeds in metres or feet
+    metric = true;
+
+    // sections the user collapsed, by title, kept across frames
+    collapsed = new Set<string>();
+
+    sources: MetadataSource[] = [];
+
+    container: HTMLElement;
+
+    /**
+     * @param container - The element the panel is rendered into.
+     */
+    constructor(container: HTMLElement) {
+        this.container = container;
+    }
+
+    /**
+     * Shows the records, replacing the previous ones.
+     *
+     * @param sources - The records with their titles, null records are skipped.
+     * @returns - Whether there is anything to show.
+     */
+    set(sources: MetadataSource[]) {
+        this.sources = sources.filter(source => source.record && Object.keys(source.record).length > 0);
+        this.render();
+        return this.sources.length > 0;
+    }
+
+    render() {
+        const { container, sources } = this;
+        container.replaceChildren();
+        if (sources.length === 0) {
+            return;
+        }
+
+        const toolbar = document.createElement('div');
+        toolbar.classList.add('metadataToolbar');
+
+        const units = document.createElement('button');
+        units.type = 'button';
+        units.textContent = this.metric ? 'm' : 'ft';
+        units.title = 'Switch between metres and feet';
+        units.addEventListener('click', () => {
+            this.metric = !this.metric;
+            this.render();
+        });
+
+        const copyAll = document.createElement('button');
+        copyAll.type = 'button';
+        copyAll.textContent = 'Copy JSON';
+        copyAll.title = 'Copy the whole record as JSON';
+        copyAll.addEventListener('click', () => {
+            const record = Object.fromEntries(sources.map(source => [source.title.toLowerCase(), source.record]));
+            copyText(JSON.stringify(record, null, 2), copyAll);
+        });
+
+        toolbar.append(units, copyAll);
+        container.appendChild(toolbar);
+
+        sources.forEach(({ title, record }) => {
+            // fields by namespace, in the order they first appear
+            const groups = new Map<string, [string, any][]>();
+            Object.entries(record).forEach(([key, value]) => {
+                if (formatRaw(value) === '') {
+                    return;
+                }
+                const { namespace } = splitKey(key);
+                if (!groups.has(namespace)) {
+                    groups.set(namespace, []);
+                }
+                groups.get(namespace).push([key, value]);
+            });
+
+            groups.forEach((fields, namespace) => {
+                const sectionTitle = `${title} · ${namespaceLabels[namespace] ?? namespace}`;
+
+                const section = document.createElement('details');
+                section.classList.add('metadataSection');
+                section.open = !this.collapsed.has(sectionTitle);
+                section.addEventListener('toggle', () => {
+                    if (section.open) {
+                        this.collapsed.delete(sectionTitle);
+                    } else {
+                        this.collapsed.add(sectionTitle);
+                    }
+                });
+
+                const summary = document.createElement('summary');
+                summary.textContent = sectionTitle;
+                section.appendChild(summary);
+
+                fields.forEach(([key, value]) => {
+                    const { name } = splitKey(key);
+                    const schema = fieldSchemas[name.toLowerCase()];
+
+                    const row = document.createElement('div');
+                    row.classList.add('metadataRow');
+                    row.title = schema?.description ? `${schema.description}\n${key}` : key;
+
+                    const label = document.createElement('span');
+                    label.classList.add('metadataLabel');
+                    label.textContent = schema?.label ?? name;
+
+                    const text = document.createElement('span');
+                    text.classList.add('metadataValue');
+                    text.textContent = schema ? formatField(schema.kind, value, this.metric) : formatRaw(value);
+
+                    const copy = document.createElement('button');
+                    copy.type = 'button';
+                    copy.classList.add('metadataCopy');
+                    copy.title = 'Copy value';
+                    copy.setAttribute('aria-label', `Copy ${schema?.label ?? name}`);
+                    copy.addEventListener('click', () => copyText(formatRaw(value), copy));
+
+                    row.append(label, text, copy);
+                    section.appendChild(row);
+                });
+
+                container.appendChild(section);
+            });
+        });
+    }
+}
+
+export { MetadataPanel };
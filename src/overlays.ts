@@ -0,0 +1,164 @@
+import { Color, Vec3 } from 'playcanvas';
+
+import type { OverlayData, OverlayFeature, OverlayPosition } from './geo/overlay';
+import { parseOverlay } from './geo/overlay';
+import type { Global } from './types';
+
+type Overlay = {
+    url: string;
+    name: string;
+    color: Color;
+    visible: boolean;
+    lines: number[];                            // flattened segment end points in scene space
+    points: Vec3[];
+};
+
+const overlayColors = [
+    new Color(0, 0.85, 1),
+    new Color(1, 0.2, 0.6),
+    new Color(1, 0.9, 0),
+    new Color(0.4, 1, 0.3),
+    new Color(0.7, 0.5, 1)
+];
+
+const tmpWorld = new Vec3();
+
+/**
+ * Vector overlays (GeoJSON or KML) loaded from the `overlay` url parameters, projected into the
+ * scene through the geo transform and drawn as depth-tested lines and markers on the World layer.
+ */
+class Overlays {
+    overlays: Overlay[] = [];
+
+    constructor(global: Global) {
+        const { app, camera, config, geo } = global;
+        const worldLayer = app.scene.layers.getLayerByName('World');
+
+        // coordinates without a height are placed at the height of the scene origin rather than on
+        // the splat surface, so they float or sink where the terrain rises or falls from the origin
+        const originHeight = geo.georeferenced ? geo.sceneToGeodetic(Vec3.ZERO).height : geo.sceneToWorld(Vec3.ZERO).z;
+
+        const project = (position: OverlayPosition, feature: OverlayFeature) => {
+            const [x, y, z] = position;
+            const height = feature.heightMode === 'originHeight' || z === undefined ? originHeight :
+                (feature.heightMode === 'relativeToOrigin' ? originHeight + z : z);
+
+            // unreferenced scenes treat overlay coordinates as world coordinates
+            return geo.georeferenced ?
+                geo.geodeticToScene({ lon: x, lat: y, height }) :
+                geo.worldToScene(tmpWorld.set(x, y, height));
+        };
+
+        const createOverlay = (url: string, data: OverlayData, index: number): Overlay => {
+            const lines: number[] = [];
+            const points: Vec3[] = [];
+
+            data.features.forEach((feature) => {
+                feature.positions.forEach((list) => {
+                    const projected = list.map(p => project(p, feature)).filter(p => p);
+                    if (feature.type === 'point') {
+                        points.push(...projected);
+                        return;
+                    }
+                    if (feature.type === 'polygon' && projected.length > 2 && !projected[0].equals(projected[projected.length - 1])) {
+                        projected.push(projected[0]);
+                    }
+                    for (let i = 0; i < projected.length - 1; i++) {
+                        const a = projected[i];
+                        const b = projected[i + 1];
+                        lines.push(a.x, a.y, a.z, b.x, b.y, b.z);
+                    }
+                });
+            });
+
+            return {
+                url,
+                name: data.name,
+                color: overlayColors[index % overlayColors.length],
+                visible: true,
+                lines,
+                points
+            };
+        };
+
+        // settings panel toggles
+        const settingsPanel = document.getElementById('settingsPanel');
+        const divider = document.getElementById('overlaysDivider');
+
+        const addToggle = (overlay: Overlay) => {
+            const row = document.createElement('div');
+            row.classList.add('settingsRow');
+
+            const check = document.createElement('div');
+            check.classList.add('checkMark', 'active');
+            check.textContent = '✓';
+
+            const label = document.createElement('div');
+            label.classList.add('overlayOption');
+            label.textContent = overlay.name;
+            label.style.setProperty('--overlay-color', overlay.color.toString(false));
+
+            const toggle = () => {
+                overlay.visible = !overlay.visible;
+                check.classList.toggle('active', overlay.visible);
+                app.renderNextFrame = true;
+            };
+            check.addEventListener('click', toggle);
+            label.addEventListener('click', toggle);
+
+            row.append(check, label);
+            settingsPanel?.appendChild(row);
+            divider?.classList.remove('hidden');
+        };
+
+        (config.overlays ?? []).forEach(({ url, contents }, index) => {
+            contents
+            .then((response) => {
+                if (!response) {
+                    return Promise.reject(new Error('request failed'));
+                }
+                return response.ok ? response.text() : Promise.reject(new Error(`${response.status} ${response.statusText}`));
+            })
+            .then((text) => {
+                const overlay = createOverlay(url, parseOverlay(text, url), index);
+                this.overlays.push(overlay);
+                if (!config.noui) {
+                    addToggle(overlay);
+                }
+                app.renderNextFrame = true;
+            })
+            .catch((err) => {
+                console.warn(`Failed to load overlay ${url}`, err);
+            });
+        });
+
+        app.on('prerender', () => {
+            const cameraPos = camera.getPosition();
+
+            this.overlays.forEach((overlay) => {
+                if (!overlay.visible) {
+                    return;
+                }
+
+                if (overlay.lines.length > 0) {
+                    app.drawLineArrays(overlay.lines, overlay.color, true, worldLayer);
+                }
+
+                if (overlay.points.length > 0) {
+                    const markers: Vec3[] = [];
+                    overlay.points.forEach((p) => {
+                        const size = p.distance(cameraPos) * 0.01;
+                        markers.push(
+                            new Vec3(p.x - size, p.y, p.z), new Vec3(p.x + size, p.y, p.z),
+                            new Vec3(p.x, p.y - size, p.z), new Vec3(p.x, p.y + size, p.z),
+                            new Vec3(p.x, p.y, p.z - size), new Vec3(p.x, p.y, p.z + size)
+                        );
+                    });
+                    app.drawLines(markers, overlay.color, true, worldLayer);
+                }
+            });
+        });
+    }
+}
+
+export { Overlays };
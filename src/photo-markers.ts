@@ -0,0 +1,307 @@
+import { Vec3 } from 'playcanvas';
+
+import type { CameraManager } from './camera-manager';
+import { frameRayAt } from './frame-visibility';
+import { formatLength } from './geo/format';
+import type { InputController } from './input-controller';
+import { reprojectionResidual, triangulateRays, type PhotoObservation } from './triangulation';
+import type { Global, PhotoPickMode } from './types';
+
+// quality of a point triangulated from two photos
+type TriangulationInfo = {
+    frameIndices: [number, number];
+    filePaths: [string | null, string | null];
+    residuals: [number, number];                // reprojection error in each photo
+    residualUnit: string;                       // 'px', or '°' without intrinsics
+    gap: number;                                // closest distance between the rays, metres or scene units
+    angle: number;                              // degrees between the rays
+    splatOffset: number | null;                 // distance to the splat surface along the last ray
+};
+
+// a point located in 3D by clicking in a transform frame photo
+type PhotoMarker = {
+    id: number;
+    position: Vec3;
+    frameIndex: number;
+    filePath: string | null;
+    u: number;                                  // normalized photo position, 0..1 from the left
+    v: number;                                  // normalized photo position, 0..1 from the top
+    triangulation: TriangulationInfo | null;    // set when the point was triangulated instead of picked
+};
+
+// how long result messages stay visible over the photo
+const statusTimeoutMs = 2500;
+const triangulationStatusTimeoutMs = 10000;
+
+const tmpFar = new Vec3();
+const tmpScreen = new Vec3();
+const tmpView = new Vec3();
+const tmpDelta = new Vec3();
+
+const frameName = (filePath: string | null, frameIndex: number) => {
+    return filePath?.split('/').pop() || `Frame ${frameIndex + 1}`;
+};
+
+/**
+ * Locates clicks in the fullscreen photo on the splat and keeps the resulting points as numbered
+ * markers in the scene. The ray through the clicked pixel is found from the frame's pose and
+ * intrinsics and the surface along it with the depth picker. In triangulate mode the same feature
+ * is instead marked in two photos and the point is intersected from both rays, independent of
+ * the splat surface. Clicking a marker removes it.
+ */
+class PhotoMarkers {
+    markers: PhotoMarker[] = [];
+
+    constructor(global: Global, cameraManager: CameraManager, inputController: InputController) {
+        const { app, camera, events, geo, state } = global;
+        const frames = cameraManager.transformFrames;
+        const canvas = app.graphicsDevice.canvas as HTMLCanvasElement;
+
+        const pipPickStatus = document.getElementById('pipPickStatus');
+        const pipMarkPhoto = document.getElementById('pipMarkPhoto');
+        const pipTriangulate = document.getElementById('pipTriangulate');
+
+        if (frames.length === 0) {
+            return;
+        }
+
+        pipMarkPhoto.classList.remove('hidden');
+        pipTriangulate.classList.remove('hidden');
+
+        // marker labels positioned over the canvas
+        const labelParent = document.createElement('div');
+        labelParent.id = 'photoMarkerLabels';
+        document.querySelector('#ui').appendChild(labelParent);
+
+        let selectedIndex = -1;
+        let nextId = 1;
+        let statusTimeout: ReturnType<typeof setTimeout> | null = null;
+        const labels = new Map<number, HTMLElement>();
+
+        let firstObservation: PhotoObservation | null = null;
+
+        // show a message over the photo, a timeout of zero keeps it until the next message
+        const showStatus = (text: string, timeoutMs = statusTimeoutMs) => {
+            pipPickStatus.textContent = text;
+            pipPickStatus.classList.remove('hidden');
+            if (statusTimeout) {
+                clearTimeout(statusTimeout);
+                statusTimeout = null;
+            }
+            if (timeoutMs > 0) {
+                statusTimeout = setTimeout(() => {
+                    statusTimeout = null;
+                    pipPickStatus.classList.add('hidden');
+                }, timeoutMs);
+            }
+        };
+
+        const changed = () => {
+            events.fire('photoMarkers:changed', this.markers);
+            app.renderNextFrame = true;
+        };
+
+        const remove = (id: number) => {
+            this.markers = this.markers.filter(marker => marker.id !== id);
+            labels.get(id)?.remove();
+            labels.delete(id);
+            changed();
+        };
+
+        const add = (marker: PhotoMarker) => {
+            this.markers.push(marker);
+
+            const label = document.createElement('div');
+            label.classList.add('photoMarker');
+            label.textContent = `P${marker.id}`;
+            label.classList.toggle('triangulated', !!marker.triangulation);
+            const sources = marker.triangulation ?
+                marker.triangulation.filePaths.map((filePath, i) => frameName(filePath, marker.triangulation.frameIndices[i])) :
+                [frameName(marker.filePath, marker.frameIndex)];
+            label.title = `${sources.join(' + ')}\nClick to remove`;
+            label.addEventListener('pointerdown', event => event.stopPropagation());
+            label.addEventListener('click', (event) => {
+                event.stopPropagation();
+                remove(marker.id);
+            });
+            labelParent.appendChild(label);
+            labels.set(marker.id, label);
+
+            changed();
+        };
+
+        // pick along the photo ray using the main camera, which is aligned to the frame in PiP inspect
+        const locate = async (origin: Vec3, direction: Vec3) => {
+            tmpFar.copy(direction).mulScalar(camera.camera.farClip * 0.5).add(origin);
+            camera.camera.viewMatrix.transformPoint(tmpFar, tmpView);
+            if (tmpView.z >= 0) {
+                return null;
+            }
+
+            camera.camera.worldToScreen(tmpFar, tmpScreen);
+            const x = tmpScreen.x / canvas.clientWidth;
+            const y = tmpScreen.y / canvas.clientHeight;
+            if (x < 0 || x > 1 || y < 0 || y > 1) {
+                return null;
+            }
+
+            const hit = await inputController.pick(x, y);
+            if (!hit) {
+                return null;
+            }
+
+            // snap to the closest point on the photo ray in case the view and frame origins differ
+            const t = tmpDelta.sub2(hit, origin).dot(direction);
+            return t > 0 ? direction.clone().mulScalar(t).add(origin) : null;
+        };
+
+        const observe = (frameIndex: number, u: number, v: number, aspect: number): PhotoObservation => {
+            const frame = frames[frameIndex];
+            return {
+                frameIndex,
+                u,
+                v,
+                origin: frame.position.clone(),
+                direction: frameRayAt(frame, u, v, aspect, new Vec3())
+            };
+        };
+
+        const metricLength = (vector: Vec3) => geo.sceneVectorToEnu(vector, tmpView).length();
+
+        const triangulate = async (second: PhotoObservation) => {
+            const first = firstObservation;
+            const intersection = triangulateRays(first, second);
+            if (!intersection) {
+                showStatus('Rays do not intersect in front of both cameras, mark the feature in a photo taken from a different position', 0);
+                return;
+            }
+
+            firstObservation = null;
+
+            const { point } = intersection;
+            const [r0, r1] = [first, second].map(obs => reprojectionResidual(frames[obs.frameIndex], obs, point));
+
+            // the camera is aligned with the second photo so the splat can be sampled along its ray
+            const splat = await locate(second.origin, second.direction);
+            const splatOffset = splat ? metricLength(tmpDelta.sub2(point, second.origin)) - metricLength(tmpDelta.sub2(splat, second.origin)) : null;
+
+            const filePaths: [string | null, string | null] = [
+                frames[first.frameIndex].frame.file_path ?? null,
+                frames[second.frameIndex].frame.file_path ?? null
+            ];
+            const marker: PhotoMarker = {
+                id: nextId++,
+                position: point,
+                frameIndex: second.frameIndex,
+                filePath: filePaths[1],
+                u: second.u,
+                v: second.v,
+                triangulation: {
+                    frameIndices: [first.frameIndex, second.frameIndex],
+                    filePaths,
+                    residuals: [r0.value, r1.value],
+                    residualUnit: r0.unit,
+                    gap: metricLength(intersection.gap),
+                    angle: intersection.angle,
+                    splatOffset
+                }
+            };
+            add(marker);
+
+            const { triangulation } = marker;
+            const lines = [
+                `Triangulated P${marker.id} · residual ${triangulation.residuals.map(r => r.toFixed(1)).join(' / ')} ${triangulation.residualUnit} · ray gap ${formatLength(triangulation.gap, geo.metric)} · angle ${triangulation.angle.toFixed(1)}°`,
+                splatOffset === null ? 'No splat surface along the ray' : `Splat surface ${formatLength(Math.abs(splatOffset), geo.metric)} ${splatOffset > 0 ? 'in front of' : 'behind'} the point`
+            ];
+            showStatus(lines.join('\n'), triangulationStatusTimeoutMs);
+        };
+
+        events.on('photoPickMode:changed', (mode: PhotoPickMode, previous: PhotoPickMode) => {
+            firstObservation = null;
+            pipMarkPhoto.classList.toggle('active', mode === 'mark');
+            pipTriangulate.classList.toggle('active', mode === 'triangulate');
+            if (mode === 'mark') {
+                showStatus('Mark · click a point in the photo to locate it in 3D', 0);
+            } else if (mode === 'triangulate') {
+                showStatus('Triangulate · click the feature in this photo', 0);
+            } else {
+                showStatus(previous === 'triangulate' ? 'Triangulate off' : 'Mark off');
+            }
+        });
+
+        // the buttons switch their mode on and off, tapping the photo closes it while both are off
+        ([[pipMarkPhoto, 'mark'], [pipTriangulate, 'triangulate']] as const).forEach(([button, mode]) => {
+            button.addEventListener('pointerdown', event => event.stopPropagation());
+            button.addEventListener('click', (event) => {
+                event.preventDefault();
+                event.stopPropagation();
+                state.photoPickMode = state.photoPickMode === mode ? null : mode;
+            });
+        });
+
+        events.on('transformFrame:selected', (selection) => {
+            selectedIndex = selection?.index ?? -1;
+        });
+
+        events.on('pipPhoto:clicked', async ({ u, v, aspect }: { u: number, v: number, aspect: number }) => {
+            const frameIndex = selectedIndex;
+            if (!state.photoPickMode || frameIndex < 0 || frameIndex >= frames.length) {
+                return;
+            }
+
+            const observation = observe(frameIndex, u, v, aspect);
+            const name = frameName(frames[frameIndex].frame.file_path ?? null, frameIndex);
+
+            if (state.photoPickMode === 'triangulate') {
+                if (!firstObservation || firstObservation.frameIndex === frameIndex) {
+                    firstObservation = observation;
+                    showStatus(`Triangulate · marked in ${name}, now click the same feature in another photo`, 0);
+                } else {
+                    await triangulate(observation);
+                }
+                return;
+            }
+
+            const position = await locate(observation.origin, observation.direction);
+            if (!position) {
+                showStatus('No surface found at this pixel');
+                return;
+            }
+
+            const marker: PhotoMarker = {
+                id: nextId++,
+                position,
+                frameIndex,
+                filePath: frames[frameIndex].frame.file_path ?? null,
+                u,
+                v,
+                triangulation: null
+            };
+            add(marker);
+
+            const distance = metricLength(tmpDelta.sub2(position, observation.origin));
+            showStatus(`Marked P${marker.id} at ${formatLength(distance, geo.metric)} from the camera`);
+        });
+
+        // keep the labels over their markers, hiding those behind the camera
+        app.on('prerender', () => {
+            const { viewMatrix } = camera.camera;
+            this.markers.forEach((marker) => {
+                const label = labels.get(marker.id);
+                viewMatrix.transformPoint(marker.position, tmpView);
+                if (tmpView.z >= 0) {
+                    label.classList.add('hidden');
+                    return;
+                }
+                camera.camera.worldToScreen(marker.position, tmpScreen);
+                label.classList.remove('hidden');
+                label.style.left = `${tmpScreen.x}px`;
+                label.style.top = `${tmpScreen.y}px`;
+            });
+        });
+    }
+}
+
+export type { PhotoMarker, TriangulationInfo };
+
+export { PhotoMarkers };
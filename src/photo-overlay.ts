@@ -0,0 +1,287 @@
+import { Vec3 } from 'playcanvas';
+
+import type { CameraManager, PreparedTransformFrame } from './camera-manager';
+import { getElementsById } from './dom';
+import { setFrameImageSrc } from './frame-paths';
+import { frameRayAt } from './frame-visibility';
+import type { Global } from './types';
+
+// the photo is warped onto the screen as a grid of triangles so lens distortion is followed
+const gridColumns = 16;
+const gridRows = 12;
+
+// grow each triangle by this many pixels to hide antialiasing seams between neighbours
+const seamOverlap = 0.5;
+
+// camera distance from the frame, as a fraction of the median frame spacing, at which the
+// photo no longer lines up with the render
+const alignTolerance = 0.05;
+
+const tmpDir = new Vec3();
+const tmpFar = new Vec3();
+const tmpView = new Vec3();
+const tmpScreen = new Vec3();
+
+type Point = { x: number, y: number };
+
+// median distance between consecutive frames
+const medianSpacing = (frames: PreparedTransformFrame[]) => {
+    const spacings = frames.slice(1)
+    .map((frame, i) => frame.position.distance(frames[i].position))
+    .filter(d => d > 0)
+    .sort((a, b) => a - b);
+    return spacings.length > 0 ? spacings[Math.floor(spacings.length / 2)] : 1;
+};
+
+// draw the image triangle s0 s1 s2 mapped onto the screen triangle d0 d1 d2
+const drawTriangle = (context: CanvasRenderingContext2D, image: HTMLImageElement, s0: Point, s1: Point, s2: Point, d0: Point, d1: Point, d2: Point) => {
+    // affine transform taking image space to screen space
+    const det = (s1.x - s0.x) * (s2.y - s0.y) - (s2.x - s0.x) * (s1.y - s0.y);
+    if (Math.abs(det) < 1e-9) {
+        return;
+    }
+    const a = ((d1.x - d0.x) * (s2.y - s0.y) - (d2.x - d0.x) * (s1.y - s0.y)) / det;
+    const b = ((d1.y - d0.y) * (s2.y - s0.y) - (d2.y - d0.y) * (s1.y - s0.y)) / det;
+    const c = ((d2.x - d0.x) * (s1.x - s0.x) - (d1.x - d0.x) * (s2.x - s0.x)) / det;
+    const d = ((d2.y - d0.y) * (s1.x - s0.x) - (d1.y - d0.y) * (s2.x - s0.x)) / det;
+    const e = d0.x - a * s0.x - c * s0.y;
+    const f = d0.y - b * s0.x - d * s0.y;
+
+    // clip to the screen triangle pushed slightly outwards from its centroid
+    const cx = (d0.x + d1.x + d2.x) / 3;
+    const cy = (d0.y + d1.y + d2.y) / 3;
+    const grown = [d0, d1, d2].map((p) => {
+        const len = Math.hypot(p.x - cx, p.y - cy) || 1;
+        return { x: p.x + (p.x - cx) / len * seamOverlap, y: p.y + (p.y - cy) / len * seamOverlap };
+    });
+
+    context.save();
+    context.beginPath();
+    context.moveTo(grown[0].x, grown[0].y);
+    context.lineTo(grown[1].x, grown[1].y);
+    context.lineTo(grown[2].x, grown[2].y);
+    context.closePath();
+    context.clip();
+    context.transform(a, b, c, d, e, f);
+
+    // only draw the part of the image covering this triangle
+    const minX = Math.max(0, Math.floor(Math.min(s0.x, s1.x, s2.x)) - 1);
+    const minY = Math.max(0, Math.floor(Math.min(s0.y, s1.y, s2.y)) - 1);
+    const maxX = Math.min(image.naturalWidth, Math.ceil(Math.max(s0.x, s1.x, s2.x)) + 1);
+    const maxY = Math.min(image.naturalHeight, Math.ceil(Math.max(s0.y, s1.y, s2.y)) + 1);
+    context.drawImage(image, minX, minY, maxX - minX, maxY - minY, minX, minY, maxX - minX, maxY - minY);
+    context.restore();
+};
+
+/**
+ * Draws the selected frame's photo over the render, warped through the frame's intrinsics and
+ * lens distortion so it lines up when the camera sits at the frame. The photo can be blended
+ * with an opacity slider or compared side by side with a draggable swipe divider.
+ */
+class PhotoOverlay {
+    constructor(global: Global, cameraManager: CameraManager) {
+        const { app, camera, events, framePaths, state } = global;
+        const frames = cameraManager.transformFrames;
+
+        const dom = getElementsById([
+            'photoOverlay', 'photoOverlayDivider', 'photoOverlayPanel', 'photoOverlayOpacity', 'photoOverlaySwipe',
+            'photoOverlayClose', 'photoOverlayText'
+        ]);
+
+        if (frames.length === 0) {
+            return;
+        }
+
+        const overlay = dom.photoOverlay as HTMLCanvasElement;
+        const context = overlay.getContext('2d');
+        const opacityInput = dom.photoOverlayOpacity as HTMLInputElement;
+        const tolerance = medianSpacing(frames) * alignTolerance;
+
+        let selectedIndex = -1;
+        let swipe = false;
+        let split = 0.5;
+
+        // the full resolution photo, shown once loaded, and the thumbnail until then
+        const image = new Image();
+        const thumb = new Image();
+        image.decoding = 'async';
+        thumb.decoding = 'async';
+        image.addEventListener('load', () => {
+            app.renderNextFrame = true;
+        });
+        thumb.addEventListener('load', () => {
+            app.renderNextFrame = true;
+        });
+
+        const loadPhoto = () => {
+            const frame = frames[selectedIndex];
+            const filePath = frame?.frame.file_path;
+            if (state.photoOverlay && filePath) {
+                const ref = { filePath, index: selectedIndex, colmapImId: frame.frame.colmap_im_id, flight: frame.flight };
+                setFrameImageSrc(thumb, framePaths.urls(ref, 'preview'));
+                setFrameImageSrc(image, framePaths.urls(ref, 'full'));
+            } else {
+                image.removeAttribute('src');
+                thumb.removeAttribute('src');
+            }
+        };
+
+        const setText = (text: string) => {
+            if (dom.photoOverlayText.textContent !== text) {
+                dom.photoOverlayText.textContent = text;
+            }
+        };
+
+        const clear = () => {
+            overlay.classList.add('hidden');
+            dom.photoOverlayDivider.classList.add('hidden');
+        };
+
+        const draw = () => {
+            if (!state.photoOverlay) {
+                return;
+            }
+
+            const frame = frames[selectedIndex];
+            if (!frame) {
+                setText('Select a frame to overlay its photo');
+                clear();
+                return;
+            }
+
+            if (cameraManager.camera.position.distance(frame.position) > tolerance) {
+                setText('Go to the frame to align its photo');
+                clear();
+                return;
+            }
+
+            const source = image.complete && image.naturalWidth > 0 ? image : thumb;
+            if (!(source.complete && source.naturalWidth > 0)) {
+                setText('Loading photo…');
+                clear();
+                return;
+            }
+
+            setText(source === thumb ? 'Loading full resolution photo…' : '');
+
+            overlay.classList.remove('hidden');
+            dom.photoOverlayDivider.classList.toggle('hidden', !swipe);
+            dom.photoOverlayDivider.style.left = `${split * 100}%`;
+
+            // match the canvas to the viewport
+            const ratio = window.devicePixelRatio || 1;
+            const width = Math.round(overlay.clientWidth * ratio);
+            const height = Math.round(overlay.clientHeight * ratio);
+            if (overlay.width !== width || overlay.height !== height) {
+                overlay.width = width;
+                overlay.height = height;
+            }
+
+            context.setTransform(1, 0, 0, 1, 0, 0);
+            context.clearRect(0, 0, width, height);
+
+            // project the photo grid to the screen through the frame's rays
+            const aspect = source.naturalWidth / source.naturalHeight;
+            const far = camera.camera.farClip * 0.5;
+            const { viewMatrix } = camera.camera;
+            const screen: (Point | null)[] = [];
+            for (let j = 0; j <= gridRows; j++) {
+                for (let i = 0; i <= gridColumns; i++) {
+                    frameRayAt(frame, i / gridColumns, j / gridRows, aspect, tmpDir);
+                    tmpFar.copy(tmpDir).mulScalar(far).add(frame.position);
+                    viewMatrix.transformPoint(tmpFar, tmpView);
+                    if (tmpView.z >= 0) {
+                        screen.push(null);
+                    } else {
+                        camera.camera.worldToScreen(tmpFar, tmpScreen);
+                        screen.push({ x: tmpScreen.x * ratio, y: tmpScreen.y * ratio });
+                    }
+                }
+            }
+
+            context.save();
+            context.globalAlpha = Number(opacityInput.value) / 100;
+            if (swipe) {
+                context.beginPath();
+                context.rect(0, 0, width * split, height);
+                context.clip();
+            }
+
+            const sw = source.naturalWidth / gridColumns;
+            const sh = source.naturalHeight / gridRows;
+            const stride = gridColumns + 1;
+            for (let j = 0; j < gridRows; j++) {
+                for (let i = 0; i < gridColumns; i++) {
+                    const p00 = screen[j * stride + i];
+                    const p10 = screen[j * stride + i + 1];
+                    const p01 = screen[(j + 1) * stride + i];
+                    const p11 = screen[(j + 1) * stride + i + 1];
+                    if (!p00 || !p10 || !p01 || !p11) {
+                        continue;
+                    }
+
+                    const s00 = { x: i * sw, y: j * sh };
+                    const s10 = { x: (i + 1) * sw, y: j * sh };
+                    const s01 = { x: i * sw, y: (j + 1) * sh };
+                    const s11 = { x: (i + 1) * sw, y: (j + 1) * sh };
+                    drawTriangle(context, source, s00, s10, s11, p00, p10, p11);
+                    drawTriangle(context, source, s00, s11, s01, p00, p11, p01);
+                }
+            }
+            context.restore();
+        };
+
+        app.on('prerender', draw);
+
+        const redraw = () => {
+            app.renderNextFrame = true;
+        };
+
+        events.on('transformFrame:selected', (selection) => {
+            selectedIndex = selection?.index ?? -1;
+            loadPhoto();
+            redraw();
+        });
+
+        events.on('photoOverlay:changed', (value: boolean) => {
+            dom.photoOverlayPanel.classList.toggle('hidden', !value);
+            if (!value) {
+                clear();
+            }
+            loadPhoto();
+            redraw();
+        });
+
+        opacityInput.addEventListener('input', redraw);
+
+        dom.photoOverlaySwipe.addEventListener('click', () => {
+            swipe = !swipe;
+            dom.photoOverlaySwipe.classList.toggle('active', swipe);
+            redraw();
+        });
+
+        dom.photoOverlayClose.addEventListener('click', () => {
+            state.photoOverlay = false;
+        });
+
+        dom.photoOverlayPanel.addEventListener('pointerdown', event => event.stopPropagation());
+
+        // drag the swipe divider
+        dom.photoOverlayDivider.addEventListener('pointerdown', (event: PointerEvent) => {
+            dom.photoOverlayDivider.setPointerCapture(event.pointerId);
+            event.preventDefault();
+            event.stopPropagation();
+        });
+
+        dom.photoOverlayDivider.addEventListener('pointermove', (event: PointerEvent) => {
+            if (dom.photoOverlayDivider.hasPointerCapture(event.pointerId)) {
+                split = Math.max(0, Math.min(1, event.clientX / window.innerWidth));
+                redraw();
+            }
+        });
+
+        window.addEventListener('resize', redraw);
+    }
+}
+
+export { PhotoOverlay };
@@ -0,0 +1,137 @@
+import { Vec3 } from 'playcanvas';
+
+import type { ExportFeature } from './geo/export';
+import { toGeoJson, toKml } from './geo/export';
+import type { GeoCoordinate } from './geo/geo-transform';
+import type { MeasurementResult } from './measurement';
+import type { PhotoMarker } from './photo-markers';
+import type { Global } from './types';
+
+const exportName = 'scene-export';
+
+const download = (text: string, filename: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Initialize GeoJSON and KML export of annotations, the picked point, photo markers and the current measurement
+const initSceneExport = (dom: Record<string, HTMLElement>, global: Global) => {
+    const { events, geo, settings } = global;
+
+    // file path of the transform frame shown in the PiP
+    let activeFramePath: string | null = null;
+    let picked: { position: Vec3, framePath: string | null } | null = null;
+    let measurement: { result: MeasurementResult, framePath: string | null } | null = null;
+    let photoMarkers: PhotoMarker[] = [];
+
+    events.on('transformFrame:selected', (selection) => {
+        activeFramePath = selection?.filePath ?? null;
+    });
+
+    events.on('coordinate:picked', (coordinate: GeoCoordinate) => {
+        picked = { position: coordinate.scene, framePath: activeFramePath };
+    });
+
+    events.on('measurement:changed', (result: MeasurementResult) => {
+        measurement = result.points.length > 0 ? { result, framePath: activeFramePath } : null;
+    });
+
+    events.on('photoMarkers:changed', (markers: PhotoMarker[]) => {
+        photoMarkers = markers;
+    });
+
+    const collectFeatures = () => {
+        const features: ExportFeature[] = [];
+        const units = geo.metric ? 'm' : 'units';
+
+        settings.annotations.forEach((annotation, i) => {
+            features.push({
+                name: annotation.title || `Annotation ${i + 1}`,
+                geometry: 'Point',
+                points: [new Vec3(annotation.position)],
+                properties: {
+                    kind: 'annotation',
+                    title: annotation.title ?? null,
+                    text: annotation.text ?? null,
+                    frameFilePath: activeFramePath
+                }
+            });
+        });
+
+        if (picked) {
+            features.push({
+                name: 'Picked point',
+                geometry: 'Point',
+                points: [picked.position],
+                properties: {
+                    kind: 'point',
+                    frameFilePath: picked.framePath
+                }
+            });
+        }
+
+        if (measurement) {
+            const { result, framePath } = measurement;
+            const geometry = result.points.length === 1 ? 'Point' : (result.area !== null ? 'Polygon' : 'LineString');
+            features.push({
+                name: result.area !== null ? 'Area measurement' : 'Line measurement',
+                geometry,
+                points: result.points,
+                properties: {
+                    kind: 'measurement',
+                    mode: result.mode,
+                    units,
+                    length: result.length,
+                    horizontalLength: result.horizontalLength,
+                    area: result.area,
+                    horizontalArea: result.horizontalArea,
+                    segmentLengths: result.segments.map(s => s.length.toFixed(3)).join(';'),
+                    frameFilePath: framePath
+                }
+            });
+        }
+
+        photoMarkers.forEach((marker) => {
+            features.push({
+                name: `P${marker.id}`,
+                geometry: 'Point',
+                points: [marker.position],
+                properties: {
+                    kind: 'photoMarker',
+                    frameFilePath: marker.filePath,
+                    photoU: marker.u,
+                    photoV: marker.v,
+                    ...(marker.triangulation ? {
+                        method: 'triangulated',
+                        frameFilePaths: marker.triangulation.filePaths.join(';'),
+                        residuals: marker.triangulation.residuals.map(r => r.toFixed(2)).join(';'),
+                        residualUnit: marker.triangulation.residualUnit,
+                        rayGap: marker.triangulation.gap,
+                        rayAngle: marker.triangulation.angle,
+                        splatOffset: marker.triangulation.splatOffset
+                    } : { method: 'splat' })
+                }
+            });
+        });
+
+        return features;
+    };
+
+    dom.exportGeoJson.addEventListener('click', () => {
+        const geojson = toGeoJson(collectFeatures(), geo);
+        download(JSON.stringify(geojson, null, 2), `${exportName}.geojson`, 'application/geo+json');
+    });
+
+    // KML is only defined for geographic coordinates
+    dom.exportKml.classList.toggle('hidden', !geo.georeferenced);
+    dom.exportKml.addEventListener('click', () => {
+        const kml = toKml(collectFeatures(), geo, exportName);
+        download(kml, `${exportName}.kml`, 'application/vnd.google-earth.kml+xml');
+    });
+};
+
+export { download, initSceneExport };
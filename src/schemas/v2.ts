@@ -5,6 +5,7 @@ type AnimTrack = {
     loopMode: 'none' | 'repeat' | 'pingpong',
     interpolation: 'step' | 'spline',
     smoothness: number,
+    animateFov?: boolean,   // play back the keyframe fov, otherwise the camera keeps its own
     keyframes: {
         times: number[],
         values: {
@@ -63,6 +64,21 @@ type PostEffectSettings = {
     }
 };
 
+// weights of the score used to pick the transform frame nearest the current view
+type FrameMatching = {
+    position: number,       // per scene diagonal of distance
+    direction: number,      // per half turn between view directions
+    fov: number,            // per 90 degrees of fov difference
+    behind: number          // added when the frame faces away from the view
+};
+
+// url templates of the frame photos per resolution tier, see FramePaths for the placeholders
+type ImagePaths = {
+    thumb?: string,         // filmstrip and visibility list
+    preview?: string,       // picture in picture and the overlay while the full photo loads
+    full?: string           // fullscreen inspection and photo overlay
+};
+
 type ExperienceSettings = {
     version: 2,
     tonemapping: 'none' | 'linear' | 'filmic' | 'hejl' | 'aces' | 'aces2' | 'neutral',
@@ -81,7 +97,11 @@ type ExperienceSettings = {
 
     startMode: 'default' | 'animTrack' | 'annotation',
 
-    hasStartPose?: boolean
+    hasStartPose?: boolean,
+
+    frameMatching?: FrameMatching,
+
+    imagePaths?: ImagePaths
 };
 
-export type { AnimTrack, Camera, Annotation, PostEffectSettings, ExperienceSettings };
+export type { AnimTrack, Camera, Annotation, FrameMatching, ImagePaths, PostEffectSettings, ExperienceSettings };
@@ -119,6 +119,6 @@ const importSettings = (settings: any): V2 => {
 };
 
 // export the latest/current schema types
-export type { AnimTrack, Camera, Annotation, PostEffectSettings, ExperienceSettings } from './schemas/v2';
+export type { AnimTrack, Camera, Annotation, FrameMatching, ImagePaths, PostEffectSettings, ExperienceSettings } from './schemas/v2';
 
 export { importSettings };
@@ -0,0 +1,99 @@
+import { Vec3 } from 'playcanvas';
+
+import type { PreparedTransformFrame } from './camera-manager';
+import { projectRay } from './core/lens';
+
+// a ray through a feature marked in a transform frame photo
+type PhotoObservation = {
+    frameIndex: number;
+    u: number;                                  // normalized photo position, 0..1 from the left
+    v: number;                                  // normalized photo position, 0..1 from the top
+    origin: Vec3;
+    direction: Vec3;                            // normalized, scene space
+};
+
+type RayIntersection = {
+    point: Vec3;                                // midpoint of the closest points on both rays
+    gap: Vec3;                                  // vector between the closest points
+    angle: number;                              // degrees between the rays
+};
+
+// rays closer to parallel than this give unusable depth
+const minAngleDeg = 0.5;
+
+const tmpW = new Vec3();
+const tmpA = new Vec3();
+const tmpB = new Vec3();
+const tmpDelta = new Vec3();
+const tmpRay = new Vec3();
+const tmpImage = new Vec3();
+
+/**
+ * Triangulates a point from two rays with the midpoint method.
+ *
+ * @param a - The first observation.
+ * @param b - The second observation.
+ * @returns - The intersection, or null when the rays are near parallel or meet behind a camera.
+ */
+const triangulateRays = (a: PhotoObservation, b: PhotoObservation): RayIntersection | null => {
+    const cosAngle = a.direction.dot(b.direction);
+    const angle = Math.acos(Math.min(1, Math.abs(cosAngle))) * 180 / Math.PI;
+    if (angle < minAngleDeg) {
+        return null;
+    }
+
+    // closest points o1 + s d1 and o2 + t d2 for unit directions
+    tmpW.sub2(a.origin, b.origin);
+    const d = a.direction.dot(tmpW);
+    const e = b.direction.dot(tmpW);
+    const denom = 1 - cosAngle * cosAngle;
+    const s = (cosAngle * e - d) / denom;
+    const t = (e - cosAngle * d) / denom;
+    if (s <= 0 || t <= 0) {
+        return null;
+    }
+
+    tmpA.copy(a.direction).mulScalar(s).add(a.origin);
+    tmpB.copy(b.direction).mulScalar(t).add(b.origin);
+
+    return {
+        point: new Vec3().add2(tmpA, tmpB).mulScalar(0.5),
+        gap: new Vec3().sub2(tmpB, tmpA),
+        angle
+    };
+};
+
+/**
+ * Measures how far a point projects from where it was marked in a photo. The residual is in
+ * photo pixels when the frame has intrinsics and in degrees otherwise.
+ *
+ * @param frame - The prepared transform frame.
+ * @param observation - Where the point was marked.
+ * @param point - The point in scene space.
+ * @returns - The residual and its unit.
+ */
+const reprojectionResidual = (frame: PreparedTransformFrame, observation: PhotoObservation, point: Vec3) => {
+    const { intrinsics } = frame;
+    tmpDelta.sub2(point, frame.position);
+
+    if (intrinsics) {
+        const { width, height, fx, fy, cx, cy, distortion } = intrinsics;
+        tmpRay.set(tmpDelta.dot(frame.right), -tmpDelta.dot(frame.up), tmpDelta.dot(frame.forward));
+        if (projectRay(distortion, tmpRay, tmpImage)) {
+            return {
+                value: Math.hypot(fx * tmpImage.x + cx - observation.u * width, fy * tmpImage.y + cy - observation.v * height),
+                unit: 'px'
+            };
+        }
+    }
+
+    const cosAngle = tmpDelta.normalize().dot(observation.direction);
+    return {
+        value: Math.acos(Math.max(-1, Math.min(1, cosAngle))) * 180 / Math.PI,
+        unit: '°'
+    };
+};
+
+export type { PhotoObservation, RayIntersection };
+
+export { reprojectionResidual, triangulateRays };
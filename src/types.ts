@@ -1,11 +1,18 @@
 import type { Entity, EventHandler, AppBase } from 'playcanvas';
 
-import type { ExperienceSettings } from './settings';
+import type { Flight } from './flights';
+import type { FramePaths } from './frame-paths';
+import type { GeoTransform } from './geo/geo-transform';
+import type { ImageCache } from './image-cache';
+import type { ExperienceSettings, ImagePaths } from './settings';
 
 type CameraMode = 'orbit' | 'anim' | 'fly';
 
 type InputMode = 'desktop' | 'touch';
 
+// what clicking the fullscreen photo does, null closes the photo
+type PhotoPickMode = 'mark' | 'triangulate' | null;
+
 // configuration options are immutable at runtime
 type Config = {
     poster?: HTMLImageElement;
@@ -23,6 +30,13 @@ type Config = {
     aa: boolean;                                // render with antialiasing
     webgpu: boolean;                            // use WebGPU device
     gpusort: boolean;                           // use GPU sorting for splats
+    colmapUrl?: string;                         // COLMAP sparse model directory used instead of transforms
+    frameFilter?: string;                       // initial transform frame filter from the `filter` url parameter
+    imagePaths?: ImagePaths;                    // frame photo url templates from the `*_path` url parameters
+
+    // GeoJSON / KML vector overlays requested with the `overlay` url parameter, contents is null
+    // when the request failed
+    overlays?: { url: string, contents: Promise<Response | null> }[];
 };
 
 // observable state that can change at runtime
@@ -41,18 +55,32 @@ type State = {
     hasVR: boolean;
     isFullscreen: boolean;
     controlsHidden: boolean;
+    measureMode: boolean;                       // clicks place measurement vertices
+    photoPickMode: PhotoPickMode;               // clicks on the fullscreen photo mark or triangulate points
+    frustumsVisible: boolean;                   // draw transform frames as camera frustums
+    flightPathVisible: boolean;                 // draw the line connecting frames in capture order
+    gpsTrackVisible: boolean;                   // draw the photo GPS positions and their offsets from the frames
+    filmstripVisible: boolean;                  // show the frame thumbnail strip along the bottom
+    photoOverlay: boolean;                      // draw the selected frame's photo over the render
+    frameFilter: string;                        // transform frame filter in its url form, empty for all frames
+    frameFilterVisible: boolean;                // show the frame filter panel
+    frameSearchVisible: boolean;                // show the photo metadata search panel
 };
 
 type Global = {
     app: AppBase;
     settings: ExperienceSettings;
     geoXform: any;
+    geo: GeoTransform;                          // scene <-> world conversions parsed from geoXform
     transforms: any;
     imdat: any;
+    flights: Flight[];                          // transforms and imdat split per capture mission
+    framePaths: FramePaths;                     // resolves the frame photo urls
+    imageCache: ImageCache;                     // fetched and decoded frame photos
     config: Config;
     state: State;
     events: EventHandler;
     camera: Entity;
 };
 
-export { CameraMode, InputMode, Config, State, Global };
+export { CameraMode, InputMode, PhotoPickMode, Config, State, Global };
@@ -1,5 +1,12 @@
 import { EventHandler } from 'playcanvas';
 
+import { initCoordinateInspector } from './coordinate-inspector';
+import { getElementsById } from './dom';
+import { readJpegMetadata } from './exif';
+import { findPhotoRecord, getPhotoRecords } from './frame-metadata';
+import type { FrameImageRef } from './frame-paths';
+import { MetadataPanel } from './metadata-panel';
+import { initSceneExport } from './scene-export';
 import type { Annotation } from './settings';
 import { Tooltip } from './tooltip';
 import { Global } from './types';
@@ -222,30 +229,31 @@ const initUI = (global: Global) => {
 
     // Acquire Elements
     const docRoot = document.documentElement;
-    const dom = [
+    const dom = getElementsById([
         'ui',
         'flightMetadataTop',
-        'pipFrameWrap', 'pipFrameThumb', 'pipFrameFullscreen', 'pipFrameFull', 'pipPrevTransformFrame', 'pipNextTransformFrame', 'pipMetadataToggle', 'pipMetadataPanel',
+        'pipFrameWrap', 'pipFrameThumb', 'pipFrameFullscreen', 'pipFrameFull', 'pipPrevTransformFrame', 'pipNextTransformFrame', 'pipMetadataToggle', 'pipMetadataPanel', 'pipMarkPhoto', 'pipTriangulate',
         'controlsWrap',
         'arMode', 'vrMode',
         'enterFullscreen', 'exitFullscreen',
-        'info', 'prevTransformFrame', 'nextTransformFrame', 'infoPanel', 'desktopTab', 'touchTab', 'desktopInfoPanel', 'touchInfoPanel',
+        'info', 'measure', 'filmstripToggle', 'frameFilterToggle', 'frameSearchToggle', 'photoOverlayToggle', 'compassDial', 'prevTransformFrame', 'nextTransformFrame', 'infoPanel', 'desktopTab', 'touchTab', 'desktopInfoPanel', 'touchInfoPanel',
         'timelineContainer', 'handle', 'time',
         'buttonContainer',
         'play', 'pause',
         'settings', 'settingsPanel',
         'orbitCamera', 'flyCamera',
         'hqCheck', 'hqOption', 'lqCheck', 'lqOption',
+        'frameDisplayDivider', 'frustumsRow', 'frustumsCheck', 'frustumsOption', 'flightPathRow', 'flightPathCheck', 'flightPathOption',
+        'gpsTrackRow', 'gpsTrackCheck', 'gpsTrackOption',
         'reset', 'frame',
+        'exportGeoJson', 'exportKml',
         'loadingText', 'loadingBar',
         'joystickBase', 'joystick',
         'tooltip',
         'annotationNav', 'annotationPrev', 'annotationNext', 'annotationInfo', 'annotationNavTitle',
+        'coordinatePanel', 'coordinateText', 'coordinateCopy', 'coordinateClose',
         'supersplatBranding', 'logoOverlay'
-    ].reduce((acc: Record<string, HTMLElement>, id) => {
-        acc[id] = document.getElementById(id);
-        return acc;
-    }, {});
+    ]);
 
     // Forward wheel events from UI overlays to the canvas so the camera zooms
     // instead of the page scrolling (e.g. annotation nav, tooltips, hotspots)
@@ -260,15 +268,19 @@ const initUI = (global: Global) => {
     const pipNextTransformFrame = dom.pipNextTransformFrame as HTMLButtonElement;
     const pipMetadataToggle = dom.pipMetadataToggle as HTMLButtonElement;
     const pipMetadataPanel = dom.pipMetadataPanel;
+    const metadataPanel = new MetadataPanel(pipMetadataPanel);
     const flightMetadataTop = dom.flightMetadataTop;
-    const imdatPhotos = (global.imdat && typeof global.imdat === 'object' && typeof global.imdat.photos === 'object')
-        ? global.imdat.photos as Record<string, Record<string, any>>
-        : null;
-    const imdatHeaderCommon = (global.imdat && typeof global.imdat === 'object' && typeof global.imdat.header?.common === 'object')
-        ? global.imdat.header.common as Record<string, any>
-        : null;
-    const hasTransformFrames = Array.isArray(global.transforms?.frames) && global.transforms.frames.length > 0;
-    let selectedFramePath: string | null = null;
+    // imdat photo records and header of each flight
+    const flightPhotos = global.flights.map(flight => getPhotoRecords(flight.imdat));
+    const flightHeaders = global.flights.map(({ imdat }) => {
+        return (imdat && typeof imdat === 'object' && typeof imdat.header?.common === 'object') ? imdat.header.common as Record<string, any> : null;
+    });
+    const hasPhotoRecords = flightPhotos.some(photos => !!photos);
+    // photo records read from the jpeg headers of flights without imdat photo records, by flight and file
+    const jpegRecords = new Map<string, Promise<Record<string, any> | null>>();
+    const hasTransformFrames = global.flights.some(({ transforms }) => Array.isArray(transforms?.frames) && transforms.frames.length > 0);
+    let selectedFlight = 0;
+    let selectedFrame: FrameImageRef | null = null;
     let fullscreenOpen = false;
     let pipZoomScale = 1;
     let pipPanX = 0;
@@ -276,7 +288,7 @@ const initUI = (global: Global) => {
     let suppressCloseClickUntil = 0;
     let suppressOpenClickUntil = 0;
     let pipMetadataOpen = false;
-    let pipMetadataText = '';
+    let hasPipMetadata = false;
     const pipMinZoom = 1;
     const pipMaxZoom = 8;
     const pipCloseClickSuppressMs = 250;
@@ -302,11 +314,6 @@ const initUI = (global: Global) => {
     let hasStoredPipView = false;
     const isAnimationRunning = () => state.cameraMode === 'anim' && !state.animationPaused;
 
-    const toDerivedFramePath = (filePath: string, directory: 'images_jpg_8' | 'images_jpg') => {
-        const withDirectory = filePath.replace(/(^|\/)images\//i, `$1${directory}/`);
-        return withDirectory.replace(/\.[^./\\]+$/, '.jpg');
-    };
-
     const normalizeCaptureDateTime = (value: any) => {
         if (typeof value !== 'string' || !value) {
             return null;
@@ -314,12 +321,14 @@ const initUI = (global: Global) => {
         return value.replace(/^(\d{4}):(\d{2}):(\d{2})\s/, '$1-$2-$3 ');
     };
 
-    const pickFlightDateTime = () => {
-        const captureStart = imdatHeaderCommon?.['geoswarm:DateTimeCaptureStart'];
+    const pickFlightDateTime = (imdatHeaderCommon: Record<string, any>) => {
+        const captureStart = imdatHeaderCommon['geoswarm:DateTimeCaptureStart'] ?? imdatHeaderCommon['dc:date'];
         return normalizeCaptureDateTime(captureStart);
     };
 
+    // describe the flight of the selected frame, the first flight until a frame is selected
     const updateFlightMetadataTop = () => {
+        const imdatHeaderCommon = flightHeaders[selectedFlight];
         if (!flightMetadataTop || !imdatHeaderCommon) {
             flightMetadataTop?.classList.add('hidden');
             return;
@@ -329,7 +338,8 @@ const initUI = (global: Global) => {
         const missionId = imdatHeaderCommon['geoswarm:missionId'];
         const customer = imdatHeaderCommon['geoswarm:customer'];
         const control = imdatHeaderCommon['geoswarm:control'];
-        const flightDateTime = pickFlightDateTime();
+        const camera = imdatHeaderCommon['exif:Model'];
+        const flightDateTime = pickFlightDateTime(imdatHeaderCommon);
 
         const line1Parts = [
             flightId ? `FlightId: ${flightId}` : null,
@@ -338,6 +348,7 @@ const initUI = (global: Global) => {
         const line2Parts = [
             customer ? `Customer: ${customer}` : null,
             control ? `Control: ${control}` : null,
+            camera ? `Camera: ${camera}` : null,
             flightDateTime ? `Flight: ${flightDateTime}` : null
         ].filter(Boolean);
 
@@ -350,6 +361,9 @@ const initUI = (global: Global) => {
 
         flightMetadataTop.textContent = lines.join('\n');
         flightMetadataTop.classList.remove('hidden');
+
+        // tell flights apart by their display colour
+        flightMetadataTop.style.borderColor = global.flights.length > 1 ? global.flights[selectedFlight].color.toString(false) : '';
     };
 
     const updateFlightMetadataTopLayout = () => {
@@ -381,60 +395,15 @@ const initUI = (global: Global) => {
     };
 
     const toFrameMetadata = (selection: { filePath?: string | null; colmapImId?: number | null } | null | undefined) => {
-        if (!imdatPhotos || !selection?.filePath) {
-            return null;
-        }
-
-        const filePath = selection.filePath;
-        const baseName = filePath.split('/').pop() ?? filePath;
-        const stem = baseName.replace(/\.[^./\\]+$/, '');
-        const candidates = [
-            filePath,
-            filePath.replace(/^\.\//, ''),
-            baseName,
-            `${stem}.png`,
-            `${stem}.jpg`,
-            `${stem}.jpeg`,
-            String(selection.colmapImId ?? '')
-        ].filter(Boolean);
-
-        for (const key of candidates) {
-            const metadata = imdatPhotos[key];
-            if (metadata && typeof metadata === 'object') {
-                return metadata;
-            }
-        }
-
-        return null;
-    };
-
-    const renderMetadataValue = (value: any) => {
-        if (value === null || value === undefined) {
-            return '';
-        }
-        if (typeof value === 'number') {
-            return Number.isFinite(value) ? `${value}` : '';
-        }
-        if (typeof value === 'boolean') {
-            return value ? 'true' : 'false';
-        }
-        if (typeof value === 'string') {
-            return value;
-        }
-        return JSON.stringify(value);
+        return findPhotoRecord(flightPhotos[selectedFlight], selection?.filePath, selection?.colmapImId);
     };
 
     const updatePipMetadataUiVisibility = () => {
-        const hasMetadata = !!pipMetadataText;
+        const hasMetadata = hasPipMetadata;
         pipMetadataToggle.classList.toggle('hidden', !fullscreenOpen || !hasMetadata);
-        pipPrevTransformFrame.classList.toggle('hidden', !hasTransformFrames || !fullscreenOpen || !selectedFramePath);
-        pipNextTransformFrame.classList.toggle('hidden', !hasTransformFrames || !fullscreenOpen || !selectedFramePath);
+        pipPrevTransformFrame.classList.toggle('hidden', !hasTransformFrames || !fullscreenOpen || !selectedFrame);
+        pipNextTransformFrame.classList.toggle('hidden', !hasTransformFrames || !fullscreenOpen || !selectedFrame);
         pipMetadataPanel.classList.toggle('hidden', !(fullscreenOpen && hasMetadata && pipMetadataOpen));
-        if (fullscreenOpen && hasMetadata && pipMetadataOpen) {
-            pipMetadataPanel.textContent = pipMetadataText;
-        } else if (!pipMetadataOpen) {
-            pipMetadataPanel.textContent = '';
-        }
     };
 
     const isPipMetadataInteractiveTarget = (target: EventTarget | null) => {
@@ -442,42 +411,63 @@ const initUI = (global: Global) => {
         if (!node) {
             return false;
         }
-        return pipMetadataToggle.contains(node)
-            || pipPrevTransformFrame.contains(node)
-            || pipNextTransformFrame.contains(node)
-            || pipMetadataPanel.contains(node);
+        return pipMetadataToggle.contains(node) ||
+            dom.pipMarkPhoto.contains(node) ||
+            dom.pipTriangulate.contains(node) ||
+            pipPrevTransformFrame.contains(node) ||
+            pipNextTransformFrame.contains(node) ||
+            pipMetadataPanel.contains(node);
     };
 
-    const updatePipMetadataPanel = (selection: { filePath?: string | null; colmapImId?: number | null } | null | undefined) => {
-        if (!pipMetadataPanel) {
-            return;
+    // read a photo's metadata from its jpeg, the full resolution photo first as thumbnails are often stripped
+    const readJpegRecord = (frame: FrameImageRef) => {
+        const key = `${frame.flight ?? 0}:${frame.filePath}`;
+        if (!jpegRecords.has(key)) {
+            jpegRecords.set(key, readJpegMetadata(global.framePaths.urls(frame, 'full'), global.imageCache));
         }
+        return jpegRecords.get(key);
+    };
 
-        const commonLines = Object.entries(imdatHeaderCommon ?? {})
-            .map(([key, value]) => {
-                const rendered = renderMetadataValue(value);
-                return rendered ? `${key}: ${rendered}` : null;
-            })
-            .filter((line): line is string => !!line);
+    // without imdat, show the jpeg metadata of the selected photo once read
+    const updateJpegMetadata = (frame: FrameImageRef) => {
+        const flight = selectedFlight;
+        readJpegRecord(frame).catch((): Record<string, any> | null => null).then((record) => {
+            if (!record || selectedFrame !== frame) {
+                return;
+            }
 
-        const metadata = toFrameMetadata(selection);
-        const photoLines = Object.entries(metadata ?? {})
-            .map(([key, value]) => {
-                const rendered = renderMetadataValue(value);
-                return rendered ? `${key}: ${rendered}` : null;
-            })
-            .filter((line): line is string => !!line);
+            // describe the flight by the camera and day of its first photo read
+            if (!flightHeaders[flight]) {
+                const time = record['exif:DateTimeOriginal'];
+                flightHeaders[flight] = Object.fromEntries(Object.entries({
+                    'exif:Make': record['exif:Make'],
+                    'exif:Model': record['exif:Model'],
+                    'dc:date': typeof time === 'string' ? time.slice(0, 10).replace(/:/g, '-') : undefined
+                }).filter(([, value]) => value !== undefined));
+                updateFlightMetadataTop();
+            }
 
-        const sections: string[] = [];
-        if (commonLines.length > 0) {
-            sections.push(['Common', ...commonLines].join('\n'));
-        }
-        if (photoLines.length > 0) {
-            sections.push(['Photo', ...photoLines].join('\n'));
+            hasPipMetadata = metadataPanel.set([
+                { title: 'Flight', record: flightHeaders[flight] },
+                { title: 'Photo', record }
+            ]);
+            updatePipMetadataUiVisibility();
+        });
+    };
+
+    const updatePipMetadataPanel = (selection: { filePath?: string | null; colmapImId?: number | null } | null | undefined) => {
+        if (!pipMetadataPanel) {
+            return;
         }
 
-        pipMetadataText = sections.join('\n\n');
-        if (!pipMetadataText) {
+        hasPipMetadata = metadataPanel.set([
+            { title: 'Flight', record: flightHeaders[selectedFlight] },
+            { title: 'Photo', record: toFrameMetadata(selection) }
+        ]);
+        if (!flightPhotos[selectedFlight] && selectedFrame) {
+            updateJpegMetadata(selectedFrame);
+        }
+        if (!hasPipMetadata) {
             pipMetadataOpen = false;
             updatePipMetadataUiVisibility();
             return;
@@ -557,12 +547,14 @@ const initUI = (global: Global) => {
         }
         fullscreenOpen = false;
         dom.pipFrameFullscreen.classList.add('hidden');
+        state.photoPickMode = null;
         suppressPipOpenClick();
         resetPipInteractionState();
         hasStoredPipView = true;
         emitPipInspectState(false);
 
-        // Explicitly release full-resolution image memory when closed.
+        // Release the element's full-resolution image when closed, the image cache keeps a copy.
+        global.imageCache.cancel(fullImage);
         fullImage.removeAttribute('src');
         if (flightMetadataTop?.textContent) {
             flightMetadataTop.classList.remove('hidden');
@@ -572,7 +564,7 @@ const initUI = (global: Global) => {
     };
 
     const updatePipVisibility = () => {
-        const shouldShow = !!selectedFramePath && !isAnimationRunning();
+        const shouldShow = !!selectedFrame && !isAnimationRunning();
         dom.pipFrameWrap.classList[shouldShow ? 'remove' : 'add']('hidden');
         updateFlightMetadataTopLayout();
         if (!shouldShow) {
@@ -581,7 +573,7 @@ const initUI = (global: Global) => {
     };
 
     const openFullscreenFrame = () => {
-        if (!selectedFramePath) {
+        if (!selectedFrame) {
             return;
         }
         fullscreenOpen = true;
@@ -593,7 +585,7 @@ const initUI = (global: Global) => {
             pipPanY = 0;
         }
         applyPipTransform();
-        fullImage.src = toDerivedFramePath(selectedFramePath, 'images_jpg');
+        global.imageCache.load(fullImage, global.framePaths.urls(selectedFrame, 'full'));
         flightMetadataTop?.classList.add('hidden');
         pipMetadataOpen = false;
         updatePipMetadataUiVisibility();
@@ -793,6 +785,21 @@ const initUI = (global: Global) => {
         event.stopPropagation();
     });
 
+    // in a pick mode clicks on the photo locate the pixel in 3D, other clicks close the fullscreen view
+    const clickPhoto = (clientX: number, clientY: number) => {
+        if (!state.photoPickMode) {
+            return false;
+        }
+        const rect = fullImage.getBoundingClientRect();
+        const u = (clientX - rect.left) / rect.width;
+        const v = (clientY - rect.top) / rect.height;
+        if (!(fullImage.naturalWidth > 0 && u >= 0 && u <= 1 && v >= 0 && v <= 1)) {
+            return false;
+        }
+        events.fire('pipPhoto:clicked', { u, v, aspect: fullImage.naturalWidth / fullImage.naturalHeight });
+        return true;
+    };
+
     const releaseTouchPoint = (event: PointerEvent) => {
         if (event.pointerType === 'mouse' && event.pointerId === mousePanPointerId) {
             mousePanPointerId = null;
@@ -830,7 +837,9 @@ const initUI = (global: Global) => {
             if (shouldCloseFromTap) {
                 event.preventDefault();
                 event.stopPropagation();
-                closeFullscreenFrame();
+                if (!clickPhoto(event.clientX, event.clientY)) {
+                    closeFullscreenFrame();
+                }
             }
         }
     };
@@ -847,7 +856,9 @@ const initUI = (global: Global) => {
         if (performance.now() < suppressCloseClickUntil) {
             return;
         }
-        closeFullscreenFrame();
+        if (!clickPhoto(event.clientX, event.clientY)) {
+            closeFullscreenFrame();
+        }
     });
 
     pipMetadataToggle.addEventListener('pointerdown', (event) => {
@@ -856,7 +867,7 @@ const initUI = (global: Global) => {
     pipMetadataToggle.addEventListener('click', (event) => {
         event.preventDefault();
         event.stopPropagation();
-        if (!pipMetadataText) {
+        if (!hasPipMetadata) {
             return;
         }
         pipMetadataOpen = !pipMetadataOpen;
@@ -892,21 +903,26 @@ const initUI = (global: Global) => {
     });
 
     events.on('transformFrame:selected', (selection) => {
+        if (selection && selection.flight !== selectedFlight) {
+            selectedFlight = selection.flight ?? 0;
+            updateFlightMetadataTop();
+        }
+
         const filePath = selection?.filePath as string | null;
         if (!filePath) {
-            selectedFramePath = null;
-            pipMetadataText = '';
+            selectedFrame = null;
+            hasPipMetadata = metadataPanel.set([]);
             pipMetadataOpen = false;
             updatePipMetadataUiVisibility();
             return;
         }
 
-        selectedFramePath = filePath;
-        thumbImage.src = toDerivedFramePath(filePath, 'images_jpg_8');
+        selectedFrame = { filePath, index: selection.index, colmapImId: selection.colmapImId, flight: selection.flight };
+        global.imageCache.load(thumbImage, global.framePaths.urls(selectedFrame, 'preview'));
         updatePipMetadataPanel(selection);
 
         if (fullscreenOpen) {
-            fullImage.src = toDerivedFramePath(filePath, 'images_jpg');
+            global.imageCache.load(fullImage, global.framePaths.urls(selectedFrame, 'full'));
         }
 
         updatePipVisibility();
@@ -1000,6 +1016,32 @@ const initUI = (global: Global) => {
     });
     updateHQ();
 
+    // transform frame display
+    dom.frameDisplayDivider.classList.toggle('hidden', !hasTransformFrames);
+    dom.frustumsRow.classList.toggle('hidden', !hasTransformFrames);
+    dom.flightPathRow.classList.toggle('hidden', !hasTransformFrames);
+    dom.gpsTrackRow.classList.toggle('hidden', !hasTransformFrames || !global.geo.georeferenced);
+
+    dom.frustumsOption.addEventListener('click', () => {
+        state.frustumsVisible = !state.frustumsVisible;
+    });
+    dom.flightPathOption.addEventListener('click', () => {
+        state.flightPathVisible = !state.flightPathVisible;
+    });
+    dom.gpsTrackOption.addEventListener('click', () => {
+        state.gpsTrackVisible = !state.gpsTrackVisible;
+    });
+
+    const updateFrameDisplay = () => {
+        dom.frustumsCheck.classList.toggle('active', state.frustumsVisible);
+        dom.flightPathCheck.classList.toggle('active', state.flightPathVisible);
+        dom.gpsTrackCheck.classList.toggle('active', state.gpsTrackVisible);
+    };
+    events.on('frustumsVisible:changed', updateFrameDisplay);
+    events.on('flightPathVisible:changed', updateFrameDisplay);
+    events.on('gpsTrackVisible:changed', updateFrameDisplay);
+    updateFrameDisplay();
+
     // AR/VR
     const arChanged = () => dom.arMode.classList[state.hasAR ? 'remove' : 'add']('hidden');
     const vrChanged = () => dom.vrMode.classList[state.hasVR ? 'remove' : 'add']('hidden');
@@ -1192,6 +1234,70 @@ const initUI = (global: Global) => {
         dom.settingsPanel.classList.toggle('hidden');
     });
 
+    dom.measure.addEventListener('click', () => {
+        state.measureMode = !state.measureMode;
+    });
+
+    events.on('measureMode:changed', (value: boolean) => {
+        dom.measure.classList.toggle('active', value);
+    });
+
+    dom.filmstripToggle.classList.toggle('hidden', !hasTransformFrames);
+
+    dom.filmstripToggle.addEventListener('click', () => {
+        state.filmstripVisible = !state.filmstripVisible;
+    });
+
+    events.on('filmstripVisible:changed', (value: boolean) => {
+        dom.filmstripToggle.classList.toggle('active', value);
+    });
+
+    dom.frameFilterToggle.classList.toggle('hidden', !hasTransformFrames || (!hasPhotoRecords && global.flights.length < 2));
+
+    dom.frameFilterToggle.addEventListener('click', () => {
+        state.frameFilterVisible = !state.frameFilterVisible;
+    });
+
+    // highlight the button while the panel is open or frames are filtered out
+    const updateFrameFilterToggle = () => {
+        dom.frameFilterToggle.classList.toggle('active', state.frameFilterVisible || !!state.frameFilter);
+    };
+    events.on('frameFilterVisible:changed', updateFrameFilterToggle);
+    events.on('frameFilter:changed', updateFrameFilterToggle);
+    updateFrameFilterToggle();
+
+    dom.frameSearchToggle.classList.toggle('hidden', !hasTransformFrames || !hasPhotoRecords);
+
+    dom.frameSearchToggle.addEventListener('click', () => {
+        state.frameSearchVisible = !state.frameSearchVisible;
+    });
+
+    events.on('frameSearchVisible:changed', (value: boolean) => {
+        dom.frameSearchToggle.classList.toggle('active', value);
+    });
+
+    // the search and filter panels share their place on screen
+    events.on('frameSearchVisible:changed', (value: boolean) => {
+        if (value) {
+            state.frameFilterVisible = false;
+        }
+    });
+    events.on('frameFilterVisible:changed', (value: boolean) => {
+        if (value) {
+            state.frameSearchVisible = false;
+        }
+    });
+
+    dom.photoOverlayToggle.classList.toggle('hidden', !hasTransformFrames);
+
+    dom.photoOverlayToggle.addEventListener('click', () => {
+        state.photoOverlay = !state.photoOverlay;
+    });
+
+    events.on('photoOverlay:changed', (value: boolean) => {
+        dom.photoOverlayToggle.classList.toggle('active', value);
+    });
+
     dom.orbitCamera.addEventListener('click', () => {
         state.cameraMode = 'orbit';
     });
@@ -1231,6 +1337,12 @@ const initUI = (global: Global) => {
     // Initialize annotation navigator
     initAnnotationNav(dom, events, state, global.settings.annotations);
 
+    // Initialize picked point coordinate readout
+    initCoordinateInspector(dom, global);
+
+    // Initialize GeoJSON / KML export
+    initSceneExport(dom, global);
+
     // Hide all UI (poster, loading bar, controls)
     if (config.noui) {
         dom.ui.classList.add('hidden');
@@ -1245,8 +1357,16 @@ const initUI = (global: Global) => {
     tooltip.register(dom.flyCamera, 'Fly Camera', 'top');
     tooltip.register(dom.reset, 'Reset Camera', 'bottom');
     tooltip.register(dom.frame, 'Frame Scene', 'bottom');
+    tooltip.register(dom.exportGeoJson, 'Export GeoJSON', 'bottom');
+    tooltip.register(dom.exportKml, 'Export KML', 'bottom');
     tooltip.register(dom.settings, 'Settings', 'top');
     tooltip.register(dom.info, 'Help', 'top');
+    tooltip.register(dom.measure, 'Measure', 'top');
+    tooltip.register(dom.filmstripToggle, 'Filmstrip', 'top');
+    tooltip.register(dom.frameFilterToggle, 'Frame Filter', 'top');
+    tooltip.register(dom.frameSearchToggle, 'Search Photos', 'top');
+    tooltip.register(dom.photoOverlayToggle, 'Photo Overlay', 'top');
+    tooltip.register(dom.compassDial, 'Face North', 'bottom');
     tooltip.register(dom.prevTransformFrame, 'Previous Frame', 'top');
     tooltip.register(dom.nextTransformFrame, 'Next Frame', 'top');
     tooltip.register(dom.arMode, 'Enter AR', 'top');
@@ -27,8 +27,21 @@ import {
 import { Annotations } from './annotations';
 import { CameraManager } from './camera-manager';
 import { Camera } from './cameras/camera';
+import { Compass } from './compass';
 import { nearlyEquals } from './core/math';
+import { Filmstrip } from './filmstrip';
+import { FrameFilterPanel } from './frame-filter';
+import { FramePrefetch } from './frame-prefetch';
+import { FrameSearchPanel } from './frame-search';
+import { FrameVisibility } from './frame-visibility';
+import { Frustums } from './frustums';
+import { GpsTrack } from './gps-track';
 import { InputController } from './input-controller';
+import { Measurement } from './measurement';
+import { MetadataExport } from './metadata-export';
+import { Overlays } from './overlays';
+import { PhotoMarkers } from './photo-markers';
+import { PhotoOverlay } from './photo-overlay';
 import type { ExperienceSettings, PostEffectSettings } from './settings';
 import type { Global } from './types';
 
@@ -122,6 +135,32 @@ class Viewer {
 
     annotations: Annotations;
 
+    measurement: Measurement;
+
+    overlays: Overlays;
+
+    compass: Compass;
+
+    frustums: Frustums;
+
+    filmstrip: Filmstrip;
+
+    frameFilterPanel: FrameFilterPanel;
+
+    frameSearchPanel: FrameSearchPanel;
+
+    frameVisibility: FrameVisibility;
+
+    photoMarkers: PhotoMarkers;
+
+    photoOverlay: PhotoOverlay;
+
+    framePrefetch: FramePrefetch;
+
+    gpsTrack: GpsTrack;
+
+    metadataExport: MetadataExport;
+
     forceRenderNextFrame = false;
 
     origChunks: {
@@ -296,11 +335,31 @@ class Viewer {
                 this.annotations = new Annotations(global, this.cameraFrame != null);
             }
 
+            this.overlays = new Overlays(global);
+
             this.inputController = new InputController(global);
 
+            if (!config.noui) {
+                this.measurement = new Measurement(global, this.inputController);
+            }
+
             this.cameraManager = new CameraManager(global, sceneBound);
             applyCamera(this.cameraManager.camera);
 
+            if (!config.noui) {
+                this.compass = new Compass(global, this.cameraManager);
+                this.frustums = new Frustums(global, this.cameraManager);
+                this.filmstrip = new Filmstrip(global, this.cameraManager);
+                this.frameFilterPanel = new FrameFilterPanel(global, this.cameraManager);
+                this.frameSearchPanel = new FrameSearchPanel(global, this.cameraManager);
+                this.frameVisibility = new FrameVisibility(global, this.cameraManager);
+                this.photoMarkers = new PhotoMarkers(global, this.cameraManager, this.inputController);
+                this.photoOverlay = new PhotoOverlay(global, this.cameraManager);
+                this.framePrefetch = new FramePrefetch(global, this.cameraManager);
+                this.gpsTrack = new GpsTrack(global, this.cameraManager, this.frustums.depth * 0.5);
+                this.metadataExport = new MetadataExport(global, this.cameraManager);
+            }
+
             const { instance } = gsplat;
             if (instance) {
                 // kick off gsplat sorting immediately now that camera is in position